@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingSkeleton } from "@/components/ui/loading-skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ExternalLink, GitPullRequest } from "lucide-react";
+import { CONTRIBUTION_STATUSES, type ContributionStatus, type ContributionWithIssue } from "@shared/schema";
+
+const STATUS_LABELS: Record<ContributionStatus, string> = {
+  interested: 'Interested',
+  claimed: 'Claimed',
+  working: 'Working',
+  pr_opened: 'PR opened',
+  merged: 'Merged',
+  abandoned: 'Abandoned',
+};
+
+const STATUS_COLORS: Record<ContributionStatus, string> = {
+  interested: 'bg-gray-100 text-gray-800',
+  claimed: 'bg-blue-100 text-blue-800',
+  working: 'bg-orange-100 text-orange-800',
+  pr_opened: 'bg-purple-100 text-purple-800',
+  merged: 'bg-green-100 text-green-800',
+  abandoned: 'bg-red-100 text-red-800',
+};
+
+interface ContributionBoardProps {
+  userId: string;
+}
+
+export function ContributionBoard({ userId }: ContributionBoardProps) {
+  const { data: contributions, isLoading } = useQuery<ContributionWithIssue[]>({
+    queryKey: [`/api/users/${userId}/contributions`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <LoadingSkeleton key={i} />
+        ))}
+      </div>
+    );
+  }
+
+  if (!contributions || contributions.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-github-gray">
+          Nothing on your board yet. Use "Add to board" on an issue to start tracking your contribution.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+      {CONTRIBUTION_STATUSES.map(status => {
+        const column = contributions.filter(contribution => contribution.status === status);
+        return (
+          <Card key={status} className="bg-github-bg">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center justify-between text-sm font-semibold text-github-text">
+                <span>{STATUS_LABELS[status]}</span>
+                <Badge className={STATUS_COLORS[status]}>{column.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {column.map(contribution => (
+                <ContributionCard key={contribution.id} userId={userId} contribution={contribution} />
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+function ContributionCard({ userId, contribution }: { userId: string; contribution: ContributionWithIssue }) {
+  const { issue } = contribution;
+  const [status, setStatus] = useState(contribution.status);
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const transitionMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/users/${userId}/contributions`, {
+        issueId: issue.id,
+        status,
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/contributions`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update contribution",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const issueUrl = `https://github.com/${issue.repositoryOwner}/${issue.repositoryName}/issues/${issue.number}`;
+  const history = [...(contribution.history || [])].reverse();
+
+  return (
+    <Card>
+      <CardContent className="p-3 space-y-2">
+        <div>
+          <a
+            href={issueUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm font-medium text-github-text hover:text-github-blue transition-colors"
+          >
+            {issue.title}
+          </a>
+          <p className="text-xs text-github-gray">
+            {issue.repositoryOwner}/{issue.repositoryName}#{issue.number}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1">
+          {issue.state !== 'open' && (
+            <Badge className="bg-purple-100 text-purple-800">closed</Badge>
+          )}
+          {contribution.pullRequestUrl && (
+            <a
+              href={contribution.pullRequestUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center space-x-1 text-xs text-github-blue hover:underline"
+            >
+              <GitPullRequest className="h-3 w-3" />
+              <span>Pull request</span>
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+
+        <ul className="space-y-1 text-xs text-github-gray">
+          {history.slice(0, 3).map((event, index) => (
+            <li key={`${event.at}-${index}`}>
+              <span className="font-medium text-github-text">{STATUS_LABELS[event.status]}</span>
+              {' · '}{new Date(event.at).toLocaleDateString()}
+              {event.source === 'sync' && ' · detected'}
+              {event.note && <span className="block italic">{event.note}</span>}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex items-center space-x-2">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="h-8 text-xs border-github-border bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONTRIBUTION_STATUSES.map(option => (
+                <SelectItem key={option} value={option}>{STATUS_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            className="h-8 bg-github-blue text-white text-xs hover:bg-blue-700"
+            onClick={() => transitionMutation.mutate()}
+            disabled={transitionMutation.isPending || (status === contribution.status && !note.trim())}
+          >
+            Update
+          </Button>
+        </div>
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a note (optional)"
+          className="h-8 text-xs border-github-border"
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,25 +3,45 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Bell, Search, Github, ChevronDown, LogOut, User as UserIcon, Settings } from "lucide-react";
+import { NotificationCenter } from "@/components/notification-center";
+import { Search, Github, ChevronDown, LogOut, User as UserIcon, Settings } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import type { User } from "@shared/schema";
+import type { User, SavedSearchFilters } from "@shared/schema";
+import { parseSearchQuery, SearchQuerySyntaxError } from "@shared/search-query";
+
+const SEARCH_PLACEHOLDER = 'Search issues, e.g. lang:rust label:"good first issue" stars:>500';
 
 interface HeaderProps {
   currentUser?: User;
   onSearch: (query: string) => void;
   onDisconnectGitHub?: () => void;
+  onSelectSavedSearch?: (filters: SavedSearchFilters) => void;
 }
 
-export function Header({ currentUser, onSearch, onDisconnectGitHub }: HeaderProps) {
+export function Header({ currentUser, onSearch, onDisconnectGitHub, onSelectSavedSearch }: HeaderProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchError, setSearchError] = useState<string | null>(null);
   const [showMobileSearch, setShowMobileSearch] = useState(false);
 
+  // Malformed queries are reported here instead of being sent to the server
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    try {
+      parseSearchQuery(searchQuery);
+    } catch (error) {
+      if (!(error instanceof SearchQuerySyntaxError)) throw error;
+      setSearchError(`${error.message} (at character ${error.position + 1})`);
+      return;
+    }
+    setSearchError(null);
     onSearch(searchQuery);
   };
 
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    setSearchError(null);
+  };
+
   return (
     <>
       <header className="bg-white border-b border-github-border sticky top-0 z-50">
@@ -43,11 +63,15 @@ export function Header({ currentUser, onSearch, onDisconnectGitHub }: HeaderProp
                 </div>
                 <Input
                   type="text"
-                  placeholder="Search repositories, languages, or topics..."
+                  placeholder={SEARCH_PLACEHOLDER}
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  aria-invalid={!!searchError}
                   className="w-full pl-10 pr-4 py-2 border border-github-border rounded-md bg-github-bg focus:outline-none focus:ring-2 focus:ring-github-blue focus:border-transparent"
                 />
+                {searchError && (
+                  <p role="alert" className="absolute left-0 top-full mt-1 text-xs text-red-600">{searchError}</p>
+                )}
               </form>
             </div>
 
@@ -62,9 +86,12 @@ export function Header({ currentUser, onSearch, onDisconnectGitHub }: HeaderProp
                 <Search className="h-4 w-4" />
               </Button>
               
-              <Button variant="ghost" size="sm" className="p-2 text-github-gray hover:text-github-text">
-                <Bell className="h-4 w-4" />
-              </Button>
+              {currentUser && (
+                <NotificationCenter
+                  userId={currentUser.id}
+                  onSelectSearch={(filters) => onSelectSavedSearch?.(filters)}
+                />
+              )}
               
               {currentUser ? (
                 <DropdownMenu>
@@ -100,7 +127,7 @@ export function Header({ currentUser, onSearch, onDisconnectGitHub }: HeaderProp
                       className="text-red-600 focus:text-red-600"
                     >
                       <LogOut className="mr-2 h-4 w-4" />
-                      <span>Disconnect GitHub</span>
+                      <span>Sign out</span>
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
@@ -136,12 +163,16 @@ export function Header({ currentUser, onSearch, onDisconnectGitHub }: HeaderProp
                 <form onSubmit={handleSearch} className="flex-1">
                   <Input
                     type="text"
-                    placeholder="Search repositories, languages, or topics..."
+                    placeholder={SEARCH_PLACEHOLDER}
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => handleSearchChange(e.target.value)}
+                    aria-invalid={!!searchError}
                     className="w-full px-4 py-2 border border-github-border rounded-md bg-github-bg focus:outline-none focus:ring-2 focus:ring-github-blue focus:border-transparent"
                     autoFocus
                   />
+                  {searchError && (
+                    <p role="alert" className="mt-1 text-xs text-red-600">{searchError}</p>
+                  )}
                 </form>
               </div>
             </div>
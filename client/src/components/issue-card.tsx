@@ -1,20 +1,161 @@
-import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Star, GitFork, MessageCircle, Bookmark, ExternalLink } from "lucide-react";
-import type { Issue } from "@shared/schema";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Star, GitFork, MessageCircle, Bookmark, ExternalLink, ChevronDown, MoreHorizontal, EyeOff, KanbanSquare } from "lucide-react";
+import type { HighlightRange, RecommendedIssue, SearchResultIssue, UserFeedback } from "@shared/schema";
+
+const SNIPPET_LENGTH = 200;
+// Characters of context kept before the first match when the snippet starts mid-body
+const SNIPPET_LEAD = 60;
+// Labels that already have their own badge
+const BADGED_LABELS = ['good first issue', 'beginner friendly', 'help wanted'];
+
+// Wraps the matched ranges of text in <mark>
+function HighlightedText({ text, ranges = [] }: { text: string; ranges?: HighlightRange[] }) {
+  const segments: React.ReactNode[] = [];
+  let position = 0;
+  for (const range of ranges) {
+    if (range.start > position) segments.push(text.slice(position, range.start));
+    segments.push(
+      <mark key={range.start} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  }
+  segments.push(text.slice(position));
+  return <>{segments}</>;
+}
+
+// The start of the body, or a window around the first match when it would be cut off
+function bodySnippet(body: string, ranges: HighlightRange[] = []) {
+  const firstMatch = ranges[0];
+  const start = firstMatch && firstMatch.end > SNIPPET_LENGTH ? Math.max(0, firstMatch.start - SNIPPET_LEAD) : 0;
+  const end = start + SNIPPET_LENGTH;
+  const text = `${start > 0 ? '...' : ''}${body.substring(start, end)}${body.length > end ? '...' : ''}`;
+  const offset = (start > 0 ? 3 : 0) - start;
+  return {
+    text,
+    ranges: ranges
+      .filter(range => range.end > start && range.start < end)
+      .map(range => ({ start: Math.max(range.start, start) + offset, end: Math.min(range.end, end) + offset })),
+  };
+}
 
 interface IssueCardProps {
-  issue: Issue;
+  issue: SearchResultIssue | RecommendedIssue;
+  // Enables bookmarks and the "not interested" menu for a connected user
+  userId?: string;
+  isBookmarked?: boolean;
 }
 
-export function IssueCard({ issue }: IssueCardProps) {
-  const [isBookmarked, setIsBookmarked] = useState(false);
+export function IssueCard({ issue, userId, isBookmarked = false }: IssueCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const refreshRecommendations = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/recommended-issues`] });
+  };
+
+  const undoFeedbackMutation = useMutation({
+    mutationFn: async (feedbackId: string) => {
+      await apiRequest('DELETE', `/api/users/${userId}/feedback/${feedbackId}`);
+    },
+    onSuccess: refreshRecommendations,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to undo",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const feedbackMutation = useMutation({
+    mutationFn: async (feedback: { action: UserFeedback['action']; target: string; description: string }) => {
+      const response = await apiRequest('POST', `/api/users/${userId}/feedback`, {
+        action: feedback.action,
+        target: feedback.target,
+      });
+      return response.json() as Promise<UserFeedback>;
+    },
+    onSuccess: (feedback, { description }) => {
+      refreshRecommendations();
+      toast({
+        title: "Got it",
+        description,
+        action: (
+          <ToastAction altText="Undo" onClick={() => undoFeedbackMutation.mutate(feedback.id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save feedback",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const bookmarkMutation = useMutation({
+    mutationFn: async (bookmarked: boolean) => {
+      if (bookmarked) {
+        await apiRequest('POST', `/api/users/${userId}/bookmarks`, { issueId: issue.id });
+      } else {
+        await apiRequest('DELETE', `/api/users/${userId}/bookmarks/${issue.id}`);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/bookmarks`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update bookmark",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const trackMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/users/${userId}/contributions`, { issueId: issue.id, status: 'interested' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/contributions`] });
+      toast({
+        title: "Added to board",
+        description: "Track your progress on this issue from the Board view."
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add issue to board",
+        variant: "destructive"
+      });
+    }
+  });
 
   const handleBookmark = (e: React.MouseEvent) => {
     e.preventDefault();
-    setIsBookmarked(!isBookmarked);
+    if (!userId) {
+      toast({
+        title: "Connect GitHub",
+        description: "Connect your GitHub profile to save issues."
+      });
+      return;
+    }
+    bookmarkMutation.mutate(!isBookmarked);
   };
 
   const getTimeAgo = (date: Date | string) => {
@@ -55,6 +196,21 @@ export function IssueCard({ issue }: IssueCardProps) {
     return colors[language] || 'bg-gray-100 text-gray-800';
   };
 
+  const isOpen = issue.state === 'open' && !issue.locked;
+  const isAssigned = (issue.assignees || []).length > 0;
+
+  // Only recommended issues carry a score breakdown; skip signals that didn't apply
+  const contributions = 'scoreBreakdown' in issue
+    ? issue.scoreBreakdown.filter(contribution => contribution.score !== 0)
+    : [];
+
+  const repositoryFullName = `${issue.repositoryOwner}/${issue.repositoryName}`;
+
+  // Search results mark what matched the query
+  const highlights = issue.highlights;
+  const snippet = issue.body ? bodySnippet(issue.body, highlights?.body) : undefined;
+  const matchedLabels = (highlights?.labels || []).filter(label => !BADGED_LABELS.includes(label));
+
   const issueUrl = `https://github.com/${issue.repositoryOwner}/${issue.repositoryName}/issues/${issue.number}`;
 
   return (
@@ -62,7 +218,17 @@ export function IssueCard({ issue }: IssueCardProps) {
       <CardContent className="p-4">
         <div className="flex items-start justify-between mb-3">
           <div className="flex items-center space-x-2">
-            <span className="inline-block w-2 h-2 bg-green-500 rounded-full"></span>
+            <span className={`inline-block w-2 h-2 rounded-full ${isOpen ? 'bg-green-500' : 'bg-purple-500'}`}></span>
+            {!isOpen && (
+              <Badge className="bg-purple-100 text-purple-800">
+                {issue.locked && issue.state === 'open' ? 'locked' : 'closed'}
+              </Badge>
+            )}
+            {isAssigned && (
+              <Badge className="bg-gray-100 text-gray-800" title={issue.assignees!.join(', ')}>
+                assigned
+              </Badge>
+            )}
             {issue.isRecommended && (
               <Badge className="bg-green-500 text-white">
                 Highly Recommended
@@ -77,14 +243,20 @@ export function IssueCard({ issue }: IssueCardProps) {
             {issue.labels?.includes('help wanted') && (
               <Badge className="bg-blue-100 text-blue-800">help wanted</Badge>
             )}
+            {matchedLabels.map(label => (
+              <Badge key={label} className="bg-yellow-100 text-yellow-900">{label}</Badge>
+            ))}
             {issue.difficulty && (
-              <Badge className={getDifficultyColor(issue.difficulty)}>
+              <Badge
+                className={getDifficultyColor(issue.difficulty)}
+                title={issue.difficultyConfidence != null ? `${Math.round(issue.difficultyConfidence * 100)}% confident` : undefined}
+              >
                 {issue.difficulty}
               </Badge>
             )}
           </div>
           <span className="text-xs text-github-gray">
-            {getTimeAgo(issue.updatedAt!)}
+            {getTimeAgo(issue.githubUpdatedAt || issue.updatedAt!)}
           </span>
         </div>
 
@@ -96,26 +268,50 @@ export function IssueCard({ issue }: IssueCardProps) {
               rel="noopener noreferrer"
               className="hover:text-github-blue transition-colors"
             >
-              {issue.title}
+              <HighlightedText text={issue.title} ranges={highlights?.title} />
             </a>
           </h3>
           <p className="text-sm text-github-gray mb-2">
             <a 
-              href={`https://github.com/${issue.repositoryOwner}/${issue.repositoryName}`}
+              href={`https://github.com/${repositoryFullName}`}
               target="_blank"
               rel="noopener noreferrer"
               className="hover:text-github-blue transition-colors"
             >
-              {issue.repositoryOwner}/{issue.repositoryName}
+              {repositoryFullName}
             </a>
           </p>
-          {issue.body && (
+          {snippet && (
             <p className="text-sm text-github-gray leading-relaxed line-clamp-3">
-              {issue.body.length > 200 ? `${issue.body.substring(0, 200)}...` : issue.body}
+              <HighlightedText text={snippet.text} ranges={snippet.ranges} />
             </p>
           )}
         </div>
 
+        {contributions.length > 0 && (
+          <Collapsible className="mb-3">
+            <CollapsibleTrigger className="group flex items-center space-x-1 text-xs font-medium text-github-blue hover:underline">
+              <span>Why this issue?</span>
+              <ChevronDown className="h-3 w-3 transition-transform group-data-[state=open]:rotate-180" />
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <ul className="mt-2 space-y-1 text-xs text-github-gray">
+                {contributions.map(contribution => (
+                  <li key={contribution.signal} className="flex items-center justify-between">
+                    <span>
+                      {contribution.label}
+                      {contribution.reason && <span className="text-github-text"> · {contribution.reason}</span>}
+                    </span>
+                    <span className={contribution.score > 0 ? 'text-green-700' : 'text-red-700'}>
+                      {contribution.score > 0 ? '+' : ''}{Math.round(contribution.score * 10) / 10}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4 text-xs text-github-gray">
             <span className="flex items-center space-x-1">
@@ -142,9 +338,62 @@ export function IssueCard({ issue }: IssueCardProps) {
               size="sm"
               className="text-xs text-github-gray hover:text-github-blue transition-colors p-1"
               onClick={handleBookmark}
+              disabled={bookmarkMutation.isPending}
+              aria-label={isBookmarked ? "Remove bookmark" : "Bookmark issue"}
             >
               <Bookmark className={`h-3 w-3 ${isBookmarked ? 'fill-current' : ''}`} />
             </Button>
+            {userId && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs text-github-gray hover:text-github-blue transition-colors p-1"
+                    aria-label="More actions"
+                  >
+                    <MoreHorizontal className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                  <DropdownMenuItem onClick={() => trackMutation.mutate()}>
+                    <KanbanSquare className="mr-2 h-4 w-4" />
+                    <span>Add to board</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => feedbackMutation.mutate({
+                      action: 'dismiss',
+                      target: issue.id,
+                      description: "This issue won't be recommended again."
+                    })}
+                  >
+                    <EyeOff className="mr-2 h-4 w-4" />
+                    <span>Dismiss this issue</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => feedbackMutation.mutate({
+                      action: 'not_interested_repo',
+                      target: repositoryFullName,
+                      description: `Issues from ${repositoryFullName} will be ranked lower.`
+                    })}
+                  >
+                    <span>Not interested in {repositoryFullName}</span>
+                  </DropdownMenuItem>
+                  {issue.language && (
+                    <DropdownMenuItem
+                      onClick={() => feedbackMutation.mutate({
+                        action: 'not_interested_language',
+                        target: issue.language!,
+                        description: `${issue.language} issues will be ranked lower.`
+                      })}
+                    >
+                      <span>Not interested in {issue.language}</span>
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <Button
               asChild
               size="sm"
@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { Bell } from "lucide-react";
+import type { NotificationWithSearch, SavedSearchFilters } from "@shared/schema";
+
+interface NotificationCenterProps {
+  userId: string;
+  onSelectSearch: (filters: SavedSearchFilters) => void;
+}
+
+// Lists the new matches each sync found for the user's saved searches
+export function NotificationCenter({ userId, onSelectSearch }: NotificationCenterProps) {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<{ notifications: NotificationWithSearch[]; unread: number }>({
+    queryKey: [`/api/users/${userId}/notifications`],
+    refetchInterval: 60000, // Background syncs can finish at any time
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/users/${userId}/notifications/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/notifications`] });
+    },
+  });
+
+  const notifications = data?.notifications || [];
+  const unread = data?.unread || 0;
+
+  // Unread notifications stay highlighted until the list is closed again
+  const handleOpenChange = (open: boolean) => {
+    if (!open && unread > 0) {
+      markReadMutation.mutate();
+    }
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative p-2 text-github-gray hover:text-github-text"
+          aria-label={unread > 0 ? `${unread} unread notifications` : 'Notifications'}
+        >
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-github-blue text-white text-[10px] leading-4 text-center">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b border-github-border">
+          <p className="text-sm font-semibold text-github-text">Notifications</p>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-github-gray text-center">
+            Save a search to hear about new matching issues after each sync.
+          </p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-github-border">
+            {notifications.map(notification => {
+              const count = notification.issueIds?.length || 0;
+              return (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectSearch(notification.savedSearch.filters || {})}
+                    className={`w-full text-left px-4 py-3 hover:bg-github-bg transition-colors ${notification.readAt ? '' : 'bg-blue-50'}`}
+                  >
+                    <p className="text-sm text-github-text">
+                      {count} new {count === 1 ? 'issue matches' : 'issues match'} '{notification.savedSearch.name}'
+                    </p>
+                    <p className="text-xs text-github-gray mt-0.5">
+                      {new Date(notification.createdAt!).toLocaleString()}
+                    </p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
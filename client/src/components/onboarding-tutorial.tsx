@@ -61,15 +61,15 @@ export function OnboardingTutorial({ isOpen, onClose, onComplete }: OnboardingTu
                 <strong>How it works:</strong>
               </p>
               <ul className="text-sm text-blue-700 dark:text-blue-300 mt-1 space-y-1">
-                <li>• Enter your GitHub username</li>
+                <li>• Sign in with your GitHub account</li>
                 <li>• We analyze your public repositories</li>
                 <li>• Get recommendations based on your experience</li>
-                <li>• Disconnect anytime from your profile menu</li>
+                <li>• Sign out anytime from your profile menu</li>
               </ul>
             </div>
             <div className="bg-yellow-50 dark:bg-yellow-950 p-3 rounded-lg">
               <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                💡 Tip: Click "Connect GitHub" in the alert or your profile dropdown to get started.
+                💡 Tip: Click "Sign in with GitHub" in the alert or your profile dropdown to get started.
               </p>
             </div>
           </div>
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Trash2 } from "lucide-react";
+import type { IssueFilters, SavedSearch, SavedSearchFilters } from "@shared/schema";
+
+interface SavedSearchesProps {
+  userId: string;
+  filters: IssueFilters;
+  onApply: (filters: SavedSearchFilters) => void;
+}
+
+export function SavedSearches({ userId, filters, onApply }: SavedSearchesProps) {
+  const [name, setName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: savedSearches } = useQuery<SavedSearch[]>({
+    queryKey: [`/api/users/${userId}/saved-searches`],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { sortBy, page, limit, ...searchFilters } = filters;
+      await apiRequest('POST', `/api/users/${userId}/saved-searches`, {
+        name: name.trim(),
+        filters: searchFilters,
+      });
+    },
+    onSuccess: () => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/saved-searches`] });
+      toast({
+        title: "Search saved",
+        description: "You'll be notified when a sync finds new matching issues"
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save search",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/users/${userId}/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/saved-searches`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}/notifications`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete saved search",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      createMutation.mutate();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-semibold text-github-text">Saved Searches</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {savedSearches && savedSearches.length > 0 && (
+          <ul className="space-y-1">
+            {savedSearches.map(savedSearch => (
+              <li key={savedSearch.id} className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => onApply(savedSearch.filters || {})}
+                  className="text-sm text-github-blue hover:underline truncate text-left"
+                >
+                  {savedSearch.name}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-github-gray hover:text-red-600"
+                  onClick={() => deleteMutation.mutate(savedSearch.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Delete ${savedSearch.name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name the current filters"
+            className="h-8 text-xs border-github-border"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            className="h-8 bg-github-blue text-white text-xs hover:bg-blue-700"
+            disabled={!name.trim() || createMutation.isPending}
+          >
+            Save
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
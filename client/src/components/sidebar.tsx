@@ -1,57 +1,131 @@
 import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { User } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { SavedSearches } from "@/components/saved-searches";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { EyeOff, X } from "lucide-react";
+import type { User, IssueFilters, IssueFacets, FacetCount, InsertUserPreferences, SavedSearchFilters } from "@shared/schema";
+
+// Classifications below this confidence are hidden when the user asks for certain ones
+const CONFIDENT_DIFFICULTY = 0.5;
+
+const PAGE_SIZES = [10, 20, 50];
+
+const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'];
+const MAX_LANGUAGES = 8;
+const MAX_FACET_ITEMS = 8;
+
+// Relative windows stay relative, so a saved search keeps meaning "the last week"
+const TIME_WINDOW_PRESETS = [
+  { value: '1d', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '1y', label: 'Last year' },
+];
+
+const parseCount = (value: string) => value === '' ? undefined : Math.max(0, parseInt(value, 10) || 0);
+
+// The most common values, plus selected ones that aren't among them so they can be unchecked
+function facetOptions(counts: FacetCount[], selected: string[], max = counts.length): FacetCount[] {
+  const shown = counts.slice(0, max);
+  return [
+    ...shown,
+    ...selected
+      .filter(value => !shown.some(option => option.value === value))
+      .map(value => ({ value, count: counts.find(option => option.value === value)?.count || 0 })),
+  ];
+}
 
 interface SidebarProps {
   currentUser?: User;
-  availableLanguages: Array<{ name: string; count: number }>;
-  difficultyCounts: Record<string, number>;
-  onFiltersChange: (filters: any) => void;
+  filters: IssueFilters;
+  // Counts over the current results; undefined until the first page loads
+  facets?: IssueFacets;
+  onFiltersChange: (filters: Partial<IssueFilters>) => void;
+  onApplySavedSearch: (filters: SavedSearchFilters) => void;
 }
 
-export function Sidebar({ currentUser, availableLanguages, difficultyCounts, onFiltersChange }: SidebarProps) {
-  const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
-  const [selectedDifficulties, setSelectedDifficulties] = useState<string[]>(['beginner']);
-  const [repositorySize, setRepositorySize] = useState<string>('any');
+// The filters are owned by the page, which seeds them from the user's saved preferences
+export function Sidebar({ currentUser, filters, facets, onFiltersChange, onApplySavedSearch }: SidebarProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  const handleLanguageChange = (language: string, checked: boolean) => {
-    const updated = checked 
-      ? [...selectedLanguages, language]
-      : selectedLanguages.filter(l => l !== language);
-    setSelectedLanguages(updated);
-    updateFilters({ languages: updated });
-  };
+  const selectedLanguages = filters.languages || [];
+  const selectedDifficulties = filters.difficulty || [];
 
-  const handleDifficultyChange = (difficulty: string, checked: boolean) => {
-    const updated = checked 
-      ? [...selectedDifficulties, difficulty]
-      : selectedDifficulties.filter(d => d !== difficulty);
-    setSelectedDifficulties(updated);
-    updateFilters({ difficulty: updated });
-  };
+  // Preferred languages stay visible even when they aren't among the most common ones
+  const languageOptions = facetOptions(facets?.languages || [], selectedLanguages, MAX_LANGUAGES);
+  // There are only three levels, so each stays listed even when no issue matches it
+  const difficultyOptions = DIFFICULTY_LEVELS.map(value => ({
+    value,
+    count: facets?.difficulties.find(option => option.value === value)?.count || 0,
+  }));
+  const repositorySizeCount = (size: string) =>
+    facets?.repositorySizes.find(option => option.value === size)?.count || 0;
+  const anySizeCount = (facets?.repositorySizes || []).reduce((total, option) => total + option.count, 0);
 
-  const handleRepositorySizeChange = (size: string) => {
-    setRepositorySize(size);
-    updateFilters({ repositorySize: size });
+  const hide = (key: 'excludeOwners' | 'excludeLabels', value: string) => {
+    const hidden = filters[key] || [];
+    if (!hidden.some(existing => existing.toLowerCase() === value.toLowerCase())) {
+      onFiltersChange({ [key]: [...hidden, value] });
+    }
   };
 
-  const updateFilters = (newFilters: any) => {
+  const handleLanguageChange = (language: string, checked: boolean) => {
     onFiltersChange({
-      languages: selectedLanguages,
-      difficulty: selectedDifficulties,
-      repositorySize,
-      ...newFilters
+      languages: checked
+        ? [...selectedLanguages, language]
+        : selectedLanguages.filter(l => l !== language)
     });
   };
 
-  const applyFilters = () => {
-    updateFilters({});
+  const handleDifficultyChange = (difficulty: string, checked: boolean) => {
+    onFiltersChange({
+      difficulty: checked
+        ? [...selectedDifficulties, difficulty]
+        : selectedDifficulties.filter(d => d !== difficulty)
+    });
   };
 
+  // Save the current filters as the ones every visit starts with
+  const savePreferencesMutation = useMutation({
+    mutationFn: async () => {
+      const preferences: Omit<InsertUserPreferences, 'userId'> = {
+        defaultDifficulties: selectedDifficulties as InsertUserPreferences['defaultDifficulties'],
+        preferredLanguages: selectedLanguages,
+        excludedLanguages: filters.excludeLanguages || [],
+        repositorySize: filters.repositorySize || 'any',
+        sortBy: filters.sortBy || 'recent',
+        pageSize: filters.limit || 10,
+        hiddenOrgs: filters.excludeOwners || [],
+        hiddenRepositories: filters.excludeRepositories || [],
+        hiddenLabels: filters.excludeLabels || [],
+      };
+      const response = await apiRequest('PUT', `/api/users/${currentUser!.id}/preferences`, preferences);
+      return response.json();
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData([`/api/users/${currentUser!.id}/preferences`], preferences);
+      toast({
+        title: "Defaults saved",
+        description: "These filters will be applied every time you sign in"
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save preferences",
+        variant: "destructive"
+      });
+    }
+  });
+
   return (
     <aside className="space-y-6">
       {/* User GitHub Stats */}
@@ -100,7 +174,7 @@ export function Sidebar({ currentUser, availableLanguages, difficultyCounts, onF
           <div>
             <label className="block text-sm font-medium text-github-text mb-2">Difficulty Level</label>
             <div className="space-y-2">
-              {Object.entries(difficultyCounts).map(([difficulty, count]) => (
+              {difficultyOptions.map(({ value: difficulty, count }) => (
                 <label key={difficulty} className="flex items-center">
                   <Checkbox
                     checked={selectedDifficulties.includes(difficulty)}
@@ -116,6 +190,14 @@ export function Sidebar({ currentUser, availableLanguages, difficultyCounts, onF
                   </Badge>
                 </label>
               ))}
+              <label className="flex items-center pt-1">
+                <Checkbox
+                  checked={!!filters.minDifficultyConfidence}
+                  onCheckedChange={(checked) => onFiltersChange({ minDifficultyConfidence: checked ? CONFIDENT_DIFFICULTY : undefined })}
+                  className="rounded border-github-border text-github-blue focus:ring-github-blue"
+                />
+                <span className="ml-2 text-sm text-github-gray">Hide uncertain classifications</span>
+              </label>
             </div>
           </div>
 
@@ -123,7 +205,7 @@ export function Sidebar({ currentUser, availableLanguages, difficultyCounts, onF
           <div>
             <label className="block text-sm font-medium text-github-text mb-2">Languages</label>
             <div className="space-y-2 max-h-48 overflow-y-auto">
-              {availableLanguages.slice(0, 8).map(({ name, count }) => (
+              {languageOptions.map(({ value: name, count }) => (
                 <label key={name} className="flex items-center">
                   <Checkbox
                     checked={selectedLanguages.includes(name)}
@@ -142,27 +224,332 @@ export function Sidebar({ currentUser, availableLanguages, difficultyCounts, onF
           {/* Repository Size */}
           <div>
             <label className="block text-sm font-medium text-github-text mb-2">Repository Size</label>
-            <Select value={repositorySize} onValueChange={handleRepositorySizeChange}>
+            <Select
+              value={filters.repositorySize || 'any'}
+              onValueChange={(size) => onFiltersChange({ repositorySize: size as IssueFilters['repositorySize'] })}
+            >
+              <SelectTrigger className="w-full border-github-border bg-white focus:ring-github-blue">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any size ({anySizeCount})</SelectItem>
+                <SelectItem value="small">Small (&lt; 100 stars) ({repositorySizeCount('small')})</SelectItem>
+                <SelectItem value="medium">Medium (100-1k stars) ({repositorySizeCount('medium')})</SelectItem>
+                <SelectItem value="large">Large (1k+ stars) ({repositorySizeCount('large')})</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Activity */}
+          <div>
+            <label className="block text-sm font-medium text-github-text mb-2">Activity</label>
+            <div className="space-y-3">
+              <TimeWindow
+                label="Opened"
+                within={filters.createdWithin}
+                from={filters.createdFrom}
+                to={filters.createdTo}
+                onChange={({ within, from, to }) => onFiltersChange({ createdWithin: within, createdFrom: from, createdTo: to })}
+              />
+              <TimeWindow
+                label="Last updated"
+                within={filters.updatedWithin}
+                from={filters.updatedFrom}
+                to={filters.updatedTo}
+                onChange={({ within, from, to }) => onFiltersChange({ updatedWithin: within, updatedFrom: from, updatedTo: to })}
+              />
+              <div>
+                <p className="text-xs text-github-gray mb-1">Comments</p>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={filters.minComments ?? ''}
+                    onChange={(e) => onFiltersChange({ minComments: parseCount(e.target.value) })}
+                    placeholder="Min"
+                    aria-label="Minimum comments"
+                    className="h-8 text-xs border-github-border"
+                  />
+                  <span className="text-xs text-github-gray">to</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={filters.maxComments ?? ''}
+                    onChange={(e) => onFiltersChange({ maxComments: parseCount(e.target.value) })}
+                    placeholder="Max"
+                    aria-label="Maximum comments"
+                    className="h-8 text-xs border-github-border"
+                  />
+                </div>
+                <label className="flex items-center mt-2">
+                  <Checkbox
+                    checked={filters.maxComments === 0}
+                    onCheckedChange={(checked) => onFiltersChange(checked
+                      ? { minComments: undefined, maxComments: 0 }
+                      : { maxComments: undefined })}
+                    className="rounded border-github-border text-github-blue focus:ring-github-blue"
+                  />
+                  <span className="ml-2 text-sm text-github-gray">No comments yet</span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Labels */}
+          {facets && facets.labels.length > 0 && (
+            <FacetList
+              label="Labels"
+              options={facets.labels.slice(0, MAX_FACET_ITEMS)}
+              onHide={(label) => hide('excludeLabels', label)}
+            />
+          )}
+
+          {/* Organizations */}
+          {facets && facets.owners.length > 0 && (
+            <FacetList
+              label="Organizations"
+              options={facets.owners.slice(0, MAX_FACET_ITEMS)}
+              onHide={(owner) => hide('excludeOwners', owner)}
+            />
+          )}
+
+          {/* Availability */}
+          <div>
+            <label className="block text-sm font-medium text-github-text mb-2">Availability</label>
+            <div className="space-y-2">
+              <label className="flex items-center">
+                <Checkbox
+                  checked={!!filters.includeClosed}
+                  onCheckedChange={(checked) => onFiltersChange({ includeClosed: checked ? true : undefined })}
+                  className="rounded border-github-border text-github-blue focus:ring-github-blue"
+                />
+                <span className="ml-2 text-sm text-github-gray">Show closed issues</span>
+              </label>
+              <label className="flex items-center">
+                <Checkbox
+                  checked={!!filters.includeAssigned}
+                  onCheckedChange={(checked) => onFiltersChange({ includeAssigned: checked ? true : undefined })}
+                  className="rounded border-github-border text-github-blue focus:ring-github-blue"
+                />
+                <span className="ml-2 text-sm text-github-gray">Show assigned issues</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Hidden */}
+          <div>
+            <label className="block text-sm font-medium text-github-text mb-2">Hidden</label>
+            <div className="space-y-3">
+              <ExclusionList
+                label="Organizations"
+                placeholder="e.g. vercel"
+                values={filters.excludeOwners || []}
+                onChange={(excludeOwners) => onFiltersChange({ excludeOwners })}
+              />
+              <ExclusionList
+                label="Repositories"
+                placeholder="e.g. owner/tutorial"
+                values={filters.excludeRepositories || []}
+                onChange={(excludeRepositories) => onFiltersChange({ excludeRepositories })}
+              />
+              <ExclusionList
+                label="Labels"
+                placeholder="e.g. wontfix"
+                values={filters.excludeLabels || []}
+                onChange={(excludeLabels) => onFiltersChange({ excludeLabels })}
+              />
+              <ExclusionList
+                label="Languages"
+                placeholder="e.g. PHP"
+                values={filters.excludeLanguages || []}
+                onChange={(excludeLanguages) => onFiltersChange({ excludeLanguages })}
+              />
+            </div>
+          </div>
+
+          {/* Page Size */}
+          <div>
+            <label className="block text-sm font-medium text-github-text mb-2">Issues per page</label>
+            <Select
+              value={String(filters.limit || 10)}
+              onValueChange={(limit) => onFiltersChange({ limit: parseInt(limit, 10) })}
+            >
               <SelectTrigger className="w-full border-github-border bg-white focus:ring-github-blue">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="any">Any size</SelectItem>
-                <SelectItem value="small">Small (&lt; 100 stars)</SelectItem>
-                <SelectItem value="medium">Medium (100-1k stars)</SelectItem>
-                <SelectItem value="large">Large (1k+ stars)</SelectItem>
+                {PAGE_SIZES.map(size => (
+                  <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
-          <Button 
-            onClick={applyFilters}
-            className="w-full bg-github-blue text-white hover:bg-blue-700 transition-colors"
-          >
-            Apply Filters
-          </Button>
+          {currentUser && (
+            <Button
+              onClick={() => savePreferencesMutation.mutate()}
+              disabled={savePreferencesMutation.isPending}
+              className="w-full bg-github-blue text-white hover:bg-blue-700 transition-colors"
+            >
+              {savePreferencesMutation.isPending ? 'Saving...' : 'Save as my defaults'}
+            </Button>
+          )}
         </CardContent>
       </Card>
+
+      {currentUser && (
+        <SavedSearches userId={currentUser.id} filters={filters} onApply={onApplySavedSearch} />
+      )}
     </aside>
   );
 }
+
+interface TimeWindowValue {
+  within?: string;
+  from?: string;
+  to?: string;
+}
+
+interface TimeWindowProps extends TimeWindowValue {
+  label: string;
+  onChange: (value: TimeWindowValue) => void;
+}
+
+// A preset age, or a custom range of days picked with date inputs
+function TimeWindow({ label, within, from, to, onChange }: TimeWindowProps) {
+  const [custom, setCustom] = useState(!!(from || to));
+  const mode = within || (custom || from || to ? 'custom' : 'any');
+
+  const handleModeChange = (value: string) => {
+    setCustom(value === 'custom');
+    onChange(value === 'any' || value === 'custom' ? {} : { within: value });
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-github-gray mb-1">{label}</p>
+      <Select value={mode} onValueChange={handleModeChange}>
+        <SelectTrigger className="w-full h-8 text-xs border-github-border bg-white focus:ring-github-blue">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="any">Any time</SelectItem>
+          {TIME_WINDOW_PRESETS.map(preset => (
+            <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+          ))}
+          <SelectItem value="custom">Custom range</SelectItem>
+        </SelectContent>
+      </Select>
+      {mode === 'custom' && (
+        <div className="flex items-center space-x-2 mt-2">
+          <Input
+            type="date"
+            value={from || ''}
+            max={to}
+            onChange={(e) => onChange({ from: e.target.value || undefined, to })}
+            aria-label={`${label} from`}
+            className="h-8 text-xs border-github-border"
+          />
+          <span className="text-xs text-github-gray">to</span>
+          <Input
+            type="date"
+            value={to || ''}
+            min={from}
+            onChange={(e) => onChange({ from, to: e.target.value || undefined })}
+            aria-label={`${label} to`}
+            className="h-8 text-xs border-github-border"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface FacetListProps {
+  label: string;
+  options: FacetCount[];
+  // Adds the value to the matching "Hidden" list
+  onHide?: (value: string) => void;
+}
+
+function FacetList({ label, options, onHide }: FacetListProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-github-text mb-2">{label}</label>
+      <ul className="space-y-1">
+        {options.map(({ value, count }) => (
+          <li key={value} className="group flex items-center">
+            <span className="text-sm text-github-gray truncate">{value}</span>
+            {onHide && (
+              <button
+                type="button"
+                onClick={() => onHide(value)}
+                className="ml-1 text-github-gray opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-github-text"
+                aria-label={`Hide ${value}`}
+              >
+                <EyeOff className="h-3 w-3" />
+              </button>
+            )}
+            <Badge variant="outline" className="ml-auto text-xs">
+              {count}
+            </Badge>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface ExclusionListProps {
+  label: string;
+  placeholder: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+function ExclusionList({ label, placeholder, values, onChange }: ExclusionListProps) {
+  const [draft, setDraft] = useState("");
+
+  const add = () => {
+    const value = draft.trim();
+    if (value && !values.some(existing => existing.toLowerCase() === value.toLowerCase())) {
+      onChange([...values, value]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-github-gray mb-1">{label}</p>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {values.map(value => (
+            <Badge key={value} variant="secondary" className="text-xs">
+              {value}
+              <button
+                type="button"
+                onClick={() => onChange(values.filter(existing => existing !== value))}
+                className="ml-1 hover:text-github-text"
+                aria-label={`Show ${value} again`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            add();
+          }
+        }}
+        placeholder={placeholder}
+        className="h-8 text-xs border-github-border"
+      />
+    </div>
+  );
+}
@@ -1,30 +1,64 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Header } from "@/components/header";
 import { Sidebar } from "@/components/sidebar";
 import { IssueCard } from "@/components/issue-card";
+import { ContributionBoard } from "@/components/contribution-board";
 import { LoadingSkeleton } from "@/components/ui/loading-skeleton";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RefreshCw, AlertCircle, HelpCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
 import { OnboardingTutorial, useOnboarding } from "@/components/onboarding-tutorial";
-import type { User, Issue, IssueFilters } from "@shared/schema";
+import { DEFAULT_USER_PREFERENCES, type User, type Issue, type IssueFilters, type SyncRun, type RecommendedIssue, type BookmarkedIssue, type UserPreferences, type SavedSearchFilters, type IssueFacets } from "@shared/schema";
+
+type FilterPreferences = Omit<UserPreferences, 'userId' | 'updatedAt'>;
+
+// The filters a visit starts with, before the user changes anything
+function filtersFromPreferences(preferences: FilterPreferences): IssueFilters {
+  return {
+    difficulty: preferences.defaultDifficulties || [],
+    languages: preferences.preferredLanguages || [],
+    excludeLanguages: preferences.excludedLanguages || [],
+    excludeOwners: preferences.hiddenOrgs || [],
+    excludeRepositories: preferences.hiddenRepositories || [],
+    excludeLabels: preferences.hiddenLabels || [],
+    repositorySize: (preferences.repositorySize || 'any') as IssueFilters['repositorySize'],
+    sortBy: (preferences.sortBy || 'recent') as IssueFilters['sortBy'],
+    page: 1,
+    limit: preferences.pageSize || 10,
+  };
+}
 
 export default function Home() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [filters, setFilters] = useState<IssueFilters>({
-    difficulty: ['beginner'],
-    page: 1,
-    limit: 10,
-    sortBy: 'recent'
+  // The signed-in user, or null when nobody has signed in with GitHub
+  const { data: currentUser } = useQuery<User | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
   });
+  const [filters, setFilters] = useState<IssueFilters>(() => filtersFromPreferences(DEFAULT_USER_PREFERENCES));
+
+  const { data: preferences } = useQuery<UserPreferences>({
+    queryKey: [`/api/users/${currentUser?.id}/preferences`],
+    enabled: !!currentUser,
+  });
+
+  // Start from the signed-in user's saved defaults, keeping whatever they are searching for.
+  // Only once per user: refetched or newly saved preferences must not reset filters they have changed since.
+  const preferencesAppliedFor = useRef<string | null>(null);
+  useEffect(() => {
+    if (!preferences || preferencesAppliedFor.current === preferences.userId) return;
+    preferencesAppliedFor.current = preferences.userId;
+    setFilters(prev => ({ ...filtersFromPreferences(preferences), search: prev.search }));
+  }, [preferences]);
 
   const [searchQuery, setSearchQuery] = useState("");
+  const [view, setView] = useState<'issues' | 'saved' | 'board'>('issues');
 
   // Onboarding tutorial state
   const { 
@@ -34,16 +68,16 @@ export default function Home() {
     resetOnboarding 
   } = useOnboarding();
 
-  // Sync issues mutation
+  // Sync issues in the background and poll the job until it finishes
+  const [syncJobId, setSyncJobId] = useState<string | null>(null);
+
   const syncIssuesMutation = useMutation({
-    mutationFn: () => apiRequest('POST', '/api/sync-issues'),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/issues'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
-      toast({
-        title: "Success",
-        description: "Issues synced successfully!"
-      });
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/sync-jobs');
+      return response.json() as Promise<SyncRun>;
+    },
+    onSuccess: (run) => {
+      setSyncJobId(run.id);
     },
     onError: (error: any) => {
       toast({
@@ -54,35 +88,70 @@ export default function Home() {
     }
   });
 
-  // Create user from GitHub username
-  const createUserMutation = useMutation({
-    mutationFn: async (username: string) => {
-      const response = await apiRequest('POST', `/api/users/github/${username}`);
-      return response.json();
+  const { data: syncJob } = useQuery<SyncRun>({
+    queryKey: [`/api/sync-jobs/${syncJobId}`],
+    enabled: !!syncJobId,
+    staleTime: 0,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'succeeded' || status === 'failed' ? false : 2000;
     },
-    onSuccess: (userData) => {
-      setCurrentUser(userData);
+  });
+
+  useEffect(() => {
+    if (!syncJob || (syncJob.status !== 'succeeded' && syncJob.status !== 'failed')) return;
+
+    setSyncJobId(null);
+    if (syncJob.status === 'succeeded') {
+      queryClient.invalidateQueries({ queryKey: ['/api/issues'] });
+      if (currentUser) {
+        queryClient.invalidateQueries({ queryKey: [`/api/users/${currentUser.id}/recommended-issues`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/users/${currentUser.id}/bookmarks`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/users/${currentUser.id}/notifications`] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       toast({
         title: "Success",
-        description: "GitHub profile connected successfully!"
+        description: `Synced issues: ${syncJob.counts?.added || 0} new, ${syncJob.counts?.changed || 0} updated, ${syncJob.counts?.unchanged || 0} unchanged`
+      });
+    } else {
+      toast({
+        title: "Error",
+        description: syncJob.errors?.[0] || "Failed to sync issues",
+        variant: "destructive"
+      });
+    }
+  }, [syncJob?.status]);
+
+  const isSyncing = syncIssuesMutation.isPending || !!syncJobId;
+  // Syncs spend the server's GitHub quota, so only signed-in users can start one
+  const canSync = !!currentUser;
+
+  // Sign out and fall back to the anonymous issue list
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/auth/me'], null);
+      setView('issues');
+      setFilters(prev => ({ ...filtersFromPreferences(DEFAULT_USER_PREFERENCES), search: prev.search }));
+      toast({
+        title: "Signed out",
+        description: "You have been signed out of GitHub"
       });
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to connect GitHub profile",
+        description: error.message || "Failed to sign out",
         variant: "destructive"
       });
     }
   });
 
-  // Handle disconnect GitHub
   const handleDisconnectGitHub = () => {
-    setCurrentUser(null);
-    toast({
-      title: "Disconnected",
-      description: "GitHub profile disconnected successfully"
-    });
+    logoutMutation.mutate();
   };
 
   // Get stats
@@ -90,8 +159,6 @@ export default function Home() {
     totalIssues: number;
     recommendedIssues: number;
     newIssues: number;
-    topLanguages: Array<{ name: string; count: number }>;
-    difficultyCounts: Record<string, number>;
   }>({
     queryKey: ['/api/stats'],
     refetchInterval: 30000, // Refresh every 30 seconds
@@ -101,6 +168,7 @@ export default function Home() {
   const { data: issuesData, isLoading: issuesLoading, error: issuesError } = useQuery<{
     issues: Issue[];
     total: number;
+    facets: IssueFacets;
   }>({
     queryKey: ['/api/issues', filters],
     enabled: !!stats, // Only fetch when stats are available
@@ -108,27 +176,38 @@ export default function Home() {
 
   // Get recommended issues for current user
   const { data: recommendedData, isLoading: recommendedLoading } = useQuery<{
-    issues: Issue[];
+    issues: RecommendedIssue[];
     total: number;
+    facets: IssueFacets;
   }>({
-    queryKey: ['/api/users', currentUser?.id, 'recommended-issues', filters],
+    queryKey: [`/api/users/${currentUser?.id}/recommended-issues`, filters],
     enabled: !!currentUser,
   });
 
-  // Auto-sync issues on first load if no issues exist
+  // Get the current user's bookmarks; sync keeps them fresh
+  const { data: bookmarksData, isLoading: bookmarksLoading } = useQuery<{
+    issues: BookmarkedIssue[];
+    total: number;
+  }>({
+    queryKey: [`/api/users/${currentUser?.id}/bookmarks`],
+    enabled: !!currentUser,
+  });
+
+  const bookmarkedIds = new Set(bookmarksData?.issues.map(issue => issue.id) || []);
+
+  // Sidebar counts follow the list being browsed and stay up while new results load
+  const latestFacets = (currentUser ? recommendedData : issuesData)?.facets;
+  const [facets, setFacets] = useState<IssueFacets>();
   useEffect(() => {
-    if (stats && stats.totalIssues === 0) {
-      syncIssuesMutation.mutate();
-    }
-  }, [stats]);
+    if (latestFacets) setFacets(latestFacets);
+  }, [latestFacets]);
 
-  // Auto-connect user if GitHub username is in localStorage
+  // Auto-sync issues on first load if no issues exist
   useEffect(() => {
-    const savedUsername = localStorage.getItem('github_username');
-    if (savedUsername && !currentUser) {
-      createUserMutation.mutate(savedUsername);
+    if (stats && stats.totalIssues === 0 && canSync) {
+      syncIssuesMutation.mutate();
     }
-  }, []);
+  }, [stats, canSync]);
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
@@ -143,6 +222,12 @@ export default function Home() {
     setFilters(prev => ({ ...prev, ...newFilters, page: 1 }));
   };
 
+  // Show a saved search's matches, newest first as its notifications are
+  const handleApplySavedSearch = (savedFilters: SavedSearchFilters) => {
+    setFilters(prev => ({ ...savedFilters, sortBy: 'recent', page: 1, limit: prev.limit }));
+    setView('issues');
+  };
+
   const handleSortChange = (sortBy: string) => {
     setFilters(prev => ({ ...prev, sortBy: sortBy as any, page: 1 }));
   };
@@ -151,18 +236,29 @@ export default function Home() {
     setFilters(prev => ({ ...prev, page }));
   };
 
+  // GitHub sends the user back to the app once they have authorized it
   const handleConnectGitHub = () => {
-    const username = prompt("Enter your GitHub username:");
-    if (username) {
-      localStorage.setItem('github_username', username);
-      createUserMutation.mutate(username);
-    }
+    window.location.href = '/api/auth/github';
   };
 
-  const displayData = currentUser && recommendedData ? recommendedData : issuesData;
-  const isLoading = currentUser ? recommendedLoading : issuesLoading;
+  const handleViewChange = (value: string) => {
+    setView(value as 'issues' | 'saved' | 'board');
+    setFilters(prev => ({ ...prev, page: 1 }));
+  };
 
   const currentPage = filters.page || 1;
+  const showSaved = !!currentUser && view === 'saved';
+  const showBoard = !!currentUser && view === 'board';
+
+  // Bookmarks come back in one list, so the saved view pages through them here
+  const savedData = bookmarksData && {
+    issues: bookmarksData.issues.slice((currentPage - 1) * (filters.limit || 10), currentPage * (filters.limit || 10)),
+    total: bookmarksData.total,
+  };
+
+  const displayData = showSaved ? savedData : currentUser && recommendedData ? recommendedData : issuesData;
+  const isLoading = showSaved ? bookmarksLoading : currentUser ? recommendedLoading : issuesLoading;
+
   const totalPages = displayData ? Math.ceil(displayData.total / (filters.limit || 10)) : 0;
 
   return (
@@ -171,6 +267,7 @@ export default function Home() {
         currentUser={currentUser || undefined} 
         onSearch={handleSearch}
         onDisconnectGitHub={handleDisconnectGitHub}
+        onSelectSavedSearch={handleApplySavedSearch}
       />
       
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -179,9 +276,10 @@ export default function Home() {
           <div className="lg:col-span-1">
             <Sidebar
               currentUser={currentUser || undefined}
-              availableLanguages={stats?.topLanguages || []}
-              difficultyCounts={stats?.difficultyCounts || {}}
+              filters={filters}
+              facets={facets}
               onFiltersChange={handleFiltersChange}
+              onApplySavedSearch={handleApplySavedSearch}
             />
           </div>
 
@@ -192,22 +290,36 @@ export default function Home() {
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
                 <div>
                   <h2 className="text-2xl font-bold text-github-text">
-                    {currentUser ? 'Recommended Issues' : 'GitHub Issues'}
+                    {showBoard ? 'Contribution Board' : showSaved ? 'Saved Issues' : currentUser ? 'Recommended Issues' : 'GitHub Issues'}
                   </h2>
                   <p className="text-github-gray mt-1">
-                    {currentUser 
+                    {showBoard
+                      ? 'Issues you are working on; linked pull requests are picked up on every sync'
+                      : showSaved
+                      ? 'Issues you bookmarked, kept up to date on every sync'
+                      : currentUser 
                       ? 'Based on your GitHub activity and preferences'
                       : 'Discover beginner-friendly open source contributions'
                     }
                   </p>
                 </div>
                 <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+                  {currentUser && (
+                    <Tabs value={view} onValueChange={handleViewChange}>
+                      <TabsList>
+                        <TabsTrigger value="issues">Recommended</TabsTrigger>
+                        <TabsTrigger value="saved">Saved ({bookmarksData?.total || 0})</TabsTrigger>
+                        <TabsTrigger value="board">Board</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  )}
                   <Select value={filters.sortBy} onValueChange={handleSortChange}>
                     <SelectTrigger className="w-40 border-github-border bg-white focus:ring-github-blue">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="recent">Recently updated</SelectItem>
+                      <SelectItem value="relevance">Relevance</SelectItem>
                       <SelectItem value="stars">Most stars</SelectItem>
                       <SelectItem value="match">Best match</SelectItem>
                       <SelectItem value="comments">Most comments</SelectItem>
@@ -217,11 +329,14 @@ export default function Home() {
                     variant="outline"
                     size="sm"
                     onClick={() => syncIssuesMutation.mutate()}
-                    disabled={syncIssuesMutation.isPending}
+                    disabled={isSyncing || !canSync}
+                    title={canSync ? undefined : 'Sign in with GitHub to sync issues'}
                     className="border-github-border hover:bg-github-bg"
                   >
-                    <RefreshCw className={`h-4 w-4 mr-1 ${syncIssuesMutation.isPending ? 'animate-spin' : ''}`} />
-                    Refresh
+                    <RefreshCw className={`h-4 w-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                    {isSyncing && syncJob?.progress?.phase === 'processing'
+                      ? `${syncJob.progress.processed}/${syncJob.progress.total}`
+                      : 'Refresh'}
                   </Button>
                   <Button
                     variant="outline"
@@ -245,17 +360,16 @@ export default function Home() {
                     <Button
                       size="sm"
                       onClick={handleConnectGitHub}
-                      disabled={createUserMutation.isPending}
                       className="bg-github-blue hover:bg-blue-700"
                     >
-                      {createUserMutation.isPending ? 'Connecting...' : 'Connect GitHub'}
+                      Sign in with GitHub
                     </Button>
                   </AlertDescription>
                 </Alert>
               )}
 
               {/* Stats Bar */}
-              {stats && (
+              {stats && !showBoard && (
                 <div className="flex items-center space-x-6 text-sm text-github-gray">
                   <span><strong>{displayData?.total || 0}</strong> issues found</span>
                   <span><strong>{stats.recommendedIssues}</strong> highly recommended</span>
@@ -274,95 +388,111 @@ export default function Home() {
               </Alert>
             )}
 
-            {/* Issue Cards */}
-            <div className="space-y-4">
-              {isLoading ? (
-                // Loading skeletons
-                Array.from({ length: 5 }).map((_, i) => (
-                  <LoadingSkeleton key={i} />
-                ))
-              ) : displayData?.issues && displayData.issues.length > 0 ? (
-                displayData.issues.map((issue) => (
-                  <IssueCard key={issue.id} issue={issue} />
-                ))
-              ) : (
-                <div className="text-center py-8">
-                  <p className="text-github-gray">No issues found. Try adjusting your filters or sync new issues.</p>
-                  <Button
-                    className="mt-4 bg-github-blue hover:bg-blue-700"
-                    onClick={() => syncIssuesMutation.mutate()}
-                    disabled={syncIssuesMutation.isPending}
-                  >
-                    {syncIssuesMutation.isPending ? 'Syncing...' : 'Sync Issues'}
-                  </Button>
+            {showBoard ? (
+              <ContributionBoard userId={currentUser!.id} />
+            ) : (
+              <>
+                {/* Issue Cards */}
+                <div className="space-y-4">
+                  {isLoading ? (
+                    // Loading skeletons
+                    Array.from({ length: 5 }).map((_, i) => (
+                      <LoadingSkeleton key={i} />
+                    ))
+                  ) : displayData?.issues && displayData.issues.length > 0 ? (
+                    displayData.issues.map((issue) => (
+                      <IssueCard
+                        key={issue.id}
+                        issue={issue}
+                        userId={currentUser?.id}
+                        isBookmarked={bookmarkedIds.has(issue.id)}
+                      />
+                    ))
+                  ) : showSaved ? (
+                    <div className="text-center py-8">
+                      <p className="text-github-gray">No saved issues yet. Use the bookmark button on an issue to save it here.</p>
+                    </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <p className="text-github-gray">No issues found. Try adjusting your filters or sync new issues.</p>
+                      <Button
+                        className="mt-4 bg-github-blue hover:bg-blue-700"
+                        onClick={() => syncIssuesMutation.mutate()}
+                        disabled={isSyncing || !canSync}
+                        title={canSync ? undefined : 'Sign in with GitHub to sync issues'}
+                      >
+                        {isSyncing ? 'Syncing...' : 'Sync Issues'}
+                      </Button>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
 
-            {/* Pagination */}
-            {displayData && displayData.total > (filters.limit || 10) && (
-              <div className="mt-8 flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <span className="text-sm text-github-gray">
-                    Showing {((currentPage - 1) * (filters.limit || 10)) + 1}-{Math.min(currentPage * (filters.limit || 10), displayData.total)} of {displayData.total} issues
-                  </span>
-                </div>
-                <div className="flex items-center space-x-1">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handlePageChange(currentPage - 1)}
-                    disabled={currentPage <= 1}
-                    className="border-github-border hover:bg-github-bg"
-                  >
-                    Previous
-                  </Button>
-                  
-                  {/* Page numbers */}
-                  {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                    const page = i + 1;
-                    const isActive = page === currentPage;
-                    return (
+                {/* Pagination */}
+                {displayData && displayData.total > (filters.limit || 10) && (
+                  <div className="mt-8 flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm text-github-gray">
+                        Showing {((currentPage - 1) * (filters.limit || 10)) + 1}-{Math.min(currentPage * (filters.limit || 10), displayData.total)} of {displayData.total} issues
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-1">
                       <Button
-                        key={page}
-                        variant={isActive ? "default" : "outline"}
+                        variant="outline"
                         size="sm"
-                        onClick={() => handlePageChange(page)}
-                        className={isActive 
-                          ? "bg-github-blue text-white hover:bg-blue-700" 
-                          : "border-github-border hover:bg-github-bg"
-                        }
+                        onClick={() => handlePageChange(currentPage - 1)}
+                        disabled={currentPage <= 1}
+                        className="border-github-border hover:bg-github-bg"
                       >
-                        {page}
+                        Previous
                       </Button>
-                    );
-                  })}
                   
-                  {totalPages > 5 && (
-                    <>
-                      <span className="px-2 text-github-gray">...</span>
+                      {/* Page numbers */}
+                      {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+                        const page = i + 1;
+                        const isActive = page === currentPage;
+                        return (
+                          <Button
+                            key={page}
+                            variant={isActive ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => handlePageChange(page)}
+                            className={isActive 
+                              ? "bg-github-blue text-white hover:bg-blue-700" 
+                              : "border-github-border hover:bg-github-bg"
+                            }
+                          >
+                            {page}
+                          </Button>
+                        );
+                      })}
+                  
+                      {totalPages > 5 && (
+                        <>
+                          <span className="px-2 text-github-gray">...</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handlePageChange(totalPages)}
+                            className="border-github-border hover:bg-github-bg"
+                          >
+                            {totalPages}
+                          </Button>
+                        </>
+                      )}
+                  
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handlePageChange(totalPages)}
+                        onClick={() => handlePageChange(currentPage + 1)}
+                        disabled={currentPage >= totalPages}
                         className="border-github-border hover:bg-github-bg"
                       >
-                        {totalPages}
+                        Next
                       </Button>
-                    </>
-                  )}
-                  
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handlePageChange(currentPage + 1)}
-                    disabled={currentPage >= totalPages}
-                    className="border-github-border hover:bg-github-bg"
-                  >
-                    Next
-                  </Button>
-                </div>
-              </div>
+                    </div>
+                  </div>
+                )}
+              </>
             )}
           </div>
         </div>
@@ -0,0 +1,210 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { saveGitHubAccount, saveGitHubProfile } from "./profile";
+import { log } from "./vite";
+import type { GitHubUser } from "./github";
+
+declare module "express-session" {
+  interface SessionData {
+    userId?: string;
+    // Guards the OAuth callback against forged requests
+    oauthState?: string;
+    returnTo?: string;
+  }
+}
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Both point at github.com by default; override them to run against a mock OAuth provider
+const oauthBaseUrl = process.env.GITHUB_OAUTH_BASE_URL || "https://github.com";
+const apiBaseUrl = process.env.GITHUB_API_BASE_URL || "https://api.github.com";
+
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OAuthError";
+  }
+}
+
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+
+  // Sessions won't survive a restart, which is fine for local development
+  log("SESSION_SECRET is not set; using a random secret", "auth");
+  return randomBytes(32).toString("hex");
+}
+
+function callbackUrl(req: Request): string {
+  return process.env.GITHUB_OAUTH_CALLBACK_URL || `${req.protocol}://${req.get("host")}/api/auth/github/callback`;
+}
+
+// Only allow redirects back into this app after signing in
+function safeReturnTo(value: unknown): string {
+  return typeof value === "string" && value.startsWith("/") && !value.startsWith("//") ? value : "/";
+}
+
+async function exchangeCodeForToken(code: string, redirectUri: string): Promise<string> {
+  const response = await fetch(`${oauthBaseUrl}/login/oauth/access_token`, {
+    method: "POST",
+    headers: { "Accept": "application/json", "Content-Type": "application/json" },
+    body: JSON.stringify({
+      client_id: process.env.GITHUB_CLIENT_ID,
+      client_secret: process.env.GITHUB_CLIENT_SECRET,
+      code,
+      redirect_uri: redirectUri,
+    }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.access_token) {
+    throw new OAuthError(body.error_description || body.error || `Token exchange failed with ${response.status}`);
+  }
+  return body.access_token;
+}
+
+async function fetchAuthenticatedUser(accessToken: string): Promise<GitHubUser> {
+  const response = await fetch(`${apiBaseUrl}/user`, {
+    headers: {
+      "Accept": "application/vnd.github.v3+json",
+      "Authorization": `token ${accessToken}`,
+      "User-Agent": "GitHub-Issue-Recommender",
+    },
+  });
+  if (!response.ok) {
+    throw new OAuthError(`Failed to fetch the signed-in GitHub user: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Rejects requests unless someone is signed in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+}
+
+// Per-user routes may only be used by that user; the id comes from :userId
+export function requireSelf(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  if (req.params.userId !== req.session.userId) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: createSessionStore(),
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+
+  // Start the GitHub OAuth flow
+  app.get("/api/auth/github", (req, res) => {
+    if (!process.env.GITHUB_CLIENT_ID || !process.env.GITHUB_CLIENT_SECRET) {
+      return res.status(503).json({ message: "GitHub OAuth is not configured" });
+    }
+
+    const state = randomBytes(16).toString("hex");
+    req.session.oauthState = state;
+    req.session.returnTo = safeReturnTo(req.query.returnTo);
+
+    const params = new URLSearchParams({
+      client_id: process.env.GITHUB_CLIENT_ID,
+      redirect_uri: callbackUrl(req),
+      scope: "read:user",
+      state,
+    });
+    req.session.save(() => res.redirect(`${oauthBaseUrl}/login/oauth/authorize?${params}`));
+  });
+
+  // GitHub redirects back here with a code to exchange for an access token
+  app.get("/api/auth/github/callback", async (req, res) => {
+    const { code, state } = req.query;
+    const expectedState = req.session.oauthState;
+    const returnTo = req.session.returnTo || "/";
+    delete req.session.oauthState;
+    delete req.session.returnTo;
+
+    if (typeof code !== "string" || typeof state !== "string" || !expectedState || state !== expectedState) {
+      return res.status(400).json({ message: "Invalid OAuth callback" });
+    }
+
+    try {
+      const accessToken = await exchangeCodeForToken(code, callbackUrl(req));
+      const githubUser = await fetchAuthenticatedUser(accessToken);
+      const user = await saveGitHubAccount(githubUser);
+
+      // Rebuilding the profile takes a request per repository behind any running sync, so
+      // sign-in doesn't wait for it; recommendations sharpen once it lands
+      saveGitHubProfile(githubUser).catch(error => {
+        console.warn(`Failed to build the GitHub profile for ${githubUser.login}:`, error);
+      });
+
+      // A fresh session id on sign-in prevents session fixation
+      req.session.regenerate(error => {
+        if (error) {
+          console.error("Failed to start session:", error);
+          return res.status(500).json({ message: "Failed to sign in" });
+        }
+        req.session.userId = user.id;
+        req.session.save(() => res.redirect(returnTo));
+      });
+    } catch (error) {
+      console.error("GitHub OAuth failed:", error);
+      if (error instanceof OAuthError) {
+        return res.status(502).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to sign in" });
+    }
+  });
+
+  // Get the signed-in user
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      res.json(user);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  // Sign out
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy(error => {
+      if (error) {
+        return res.status(500).json({ message: "Failed to sign out" });
+      }
+      res.clearCookie("connect.sid");
+      res.status(204).end();
+    });
+  });
+}
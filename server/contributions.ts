@@ -0,0 +1,92 @@
+import { storage } from "./storage";
+import { github } from "./github";
+import type { Contribution, ContributionEvent, ContributionStatus, Issue } from "@shared/schema";
+
+interface TransitionOptions {
+  note?: string;
+  source?: ContributionEvent["source"];
+  pullRequestUrl?: string;
+}
+
+// Starts tracking the issue if needed and appends the change to its history
+export async function transitionContribution(
+  userId: string,
+  issueId: string,
+  status: ContributionStatus,
+  options: TransitionOptions = {},
+): Promise<Contribution> {
+  const event: ContributionEvent = {
+    status,
+    at: new Date().toISOString(),
+    source: options.source || "user",
+    ...(options.note ? { note: options.note } : {}),
+  };
+
+  const existing = await storage.getContribution(userId, issueId);
+  if (!existing) {
+    return storage.createContribution({
+      userId,
+      issueId,
+      status,
+      history: [event],
+      pullRequestUrl: options.pullRequestUrl || null,
+    });
+  }
+
+  const updated = await storage.updateContribution(existing.id, {
+    status,
+    history: [...(existing.history || []), event],
+    ...(options.pullRequestUrl ? { pullRequestUrl: options.pullRequestUrl } : {}),
+  });
+  return updated!;
+}
+
+interface TimelineEvent {
+  event: string;
+  source?: {
+    issue?: {
+      number: number;
+      html_url: string;
+      user?: { login: string };
+      pull_request?: { html_url: string; merged_at: string | null };
+    };
+  };
+}
+
+export interface LinkedPullRequest {
+  number: number;
+  url: string;
+  merged: boolean;
+}
+
+// Pull requests by the given author that reference the issue; GitHub records these as
+// cross-referenced events on the issue's timeline
+export async function findLinkedPullRequests(issue: Issue, author: string): Promise<LinkedPullRequest[]> {
+  const timeline: TimelineEvent[] = await github.request(
+    `/repos/${issue.repositoryOwner}/${issue.repositoryName}/issues/${issue.number}/timeline?per_page=100`
+  );
+
+  return timeline
+    .filter(event =>
+      event.event === "cross-referenced" &&
+      event.source?.issue?.pull_request &&
+      event.source.issue.user?.login.toLowerCase() === author.toLowerCase()
+    )
+    .map(event => ({
+      number: event.source!.issue!.number,
+      url: event.source!.issue!.pull_request!.html_url || event.source!.issue!.html_url,
+      merged: !!event.source!.issue!.pull_request!.merged_at,
+    }));
+}
+
+// The status a contribution should move to given its linked pull requests, if it should move at all
+export function detectedStatus(current: string, pullRequests: LinkedPullRequest[]): { status: ContributionStatus; pullRequest: LinkedPullRequest } | undefined {
+  const merged = pullRequests.find(pullRequest => pullRequest.merged);
+  if (merged) {
+    return { status: "merged", pullRequest: merged };
+  }
+  if (pullRequests.length > 0 && current !== "pr_opened") {
+    return { status: "pr_opened", pullRequest: pullRequests[pullRequests.length - 1] };
+  }
+  return undefined;
+}
@@ -0,0 +1,854 @@
+import { and, asc, desc, eq, getTableColumns, gte, ilike, inArray, isNull, lt, lte, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { users, repositories, issues, githubResponseCache, syncRuns, syncQueries, syncCursors, userFeedback, bookmarks, contributions, userPreferences, savedSearches, notifications, type User, type InsertUser, type Repository, type InsertRepository, type Issue, type InsertIssue, type IssueFilters, type SearchResultIssue, type IssueFacets, type FacetCount, type CachedGitHubResponse, type InsertCachedGitHubResponse, type SyncRun, type InsertSyncRun, type SyncCursor, type SyncQuery, type InsertSyncQuery, type RecommendedIssue, type UserFeedback, type InsertUserFeedback, type Bookmark, type InsertBookmark, type BookmarkedIssue, type Contribution, type InsertContribution, type ContributionWithIssue, type UserPreferences, type InsertUserPreferences, type SavedSearch, type InsertSavedSearch, type Notification, type InsertNotification, type NotificationWithSearch } from "@shared/schema";
+import type { PgColumn, SelectedFields } from "drizzle-orm/pg-core";
+import type { Database } from "./db";
+import { ranker } from "./ranking";
+import type { NumberRange, SearchTerm } from "@shared/search-query";
+import { SEARCH_FIELD_BOOSTS, TYPO_PENALTY, allowedEdits, fuzzyTokens, parseSearchTerms, searchTokens, withSearchMatch } from "./search-index";
+import type { IStorage } from "./storage";
+import { FACET_LIMIT, emptyFacets } from "./facets";
+
+const RECOMMENDED_LABELS = ['good first issue', 'beginner friendly', 'help wanted'];
+
+// Escape LIKE wildcards so search terms match literally, like MemStorage's includes()
+function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+const hasRecommendedLabel = sql`exists (
+  select 1 from jsonb_array_elements_text(coalesce(${issues.labels}, '[]'::jsonb)) as label
+  where lower(label) in (${sql.join(RECOMMENDED_LABELS.map(label => sql`${label}`), sql`, `)})
+)`;
+
+const repositoryStars = sql`coalesce(${issues.repositoryStars}, 0)`;
+
+// The buckets of the repositorySize filter, as repositorySizeOf classifies them
+const repositorySize = sql`case when ${repositoryStars} < 100 then 'small' when ${repositoryStars} < 1000 then 'medium' else 'large' end`;
+
+// One row per issue and label, with the label as "label"
+const issueLabels = sql`${issues} cross join lateral jsonb_array_elements_text(coalesce(${issues.labels}, '[]'::jsonb)) as label`;
+
+// GitHub's update time where we have it, falling back to when we last stored the issue
+const issueUpdatedAt = sql`coalesce(${issues.githubUpdatedAt}, ${issues.updatedAt})`;
+
+function allOf(conditions: SQL[]): SQL {
+  return conditions.length > 0 ? and(...conditions)! : sql`true`;
+}
+
+function rangeCondition(column: SQL, range: NumberRange): SQL {
+  return allOf([
+    ...(range.min !== undefined ? [gte(column, range.min)] : []),
+    ...(range.max !== undefined ? [lte(column, range.max)] : []),
+  ]);
+}
+
+// How many recommendation candidates are ranked in process per request
+const RANKING_CANDIDATE_LIMIT = 500;
+
+// True when the value is one of the given strings; false for an empty list
+function isOneOf(value: SQL, values: string[]): SQL {
+  return values.length > 0 ? sql`coalesce(${value} in (${sql.join(values.map(item => sql`${item}`), sql`, `)}), false)` : sql`false`;
+}
+
+// The ranker's signals that SQL can evaluate, at their current weights, including the
+// not-interested penalty from the user's feedback; only content similarity is left to the
+// in-process ranking of the candidates this selects
+function staticRankingScore(languageMatch: SQL, feedback: UserFeedback[]): SQL {
+  const weights = new Map(ranker.getSignals().map(signal => [signal.name, signal.weight]));
+  const weighted = (name: string, condition: SQL) =>
+    sql`case when ${condition} then ${weights.get(name) || 0}::real else 0 end`;
+  const targets = (action: string) => feedback.filter(item => item.action === action).map(item => item.target);
+  return sql`(${sql.join([
+    weighted("language", languageMatch),
+    weighted("beginnerLabel", hasRecommendedLabel),
+    weighted("popularRepository", sql`${repositoryStars} > 100`),
+    weighted("recentActivity", sql`${issueUpdatedAt} > now() - interval '7 days'`),
+    weighted("notInterested", sql`(${isOneOf(sql`${issues.repositoryOwner} || '/' || ${issues.repositoryName}`, targets('not_interested_repo'))}
+      or ${isOneOf(sql`${issues.language}`, targets('not_interested_language'))})`),
+  ], sql` + `)})`;
+}
+
+// pg_trgm's default word similarity threshold (0.6) misses a single transposition in a
+// six-letter word, which SearchIndex's edit distance treats as a typo
+const TYPO_SIMILARITY = 0.4;
+
+// The fields SearchIndex covers, as one string for trigram matching
+const searchDocument = sql`concat_ws(' ', ${issues.title}, ${issues.labels}::text, ${issues.repositoryOwner}, ${issues.repositoryName}, ${issues.body})`;
+
+// The same fields weighted A to D, title first, for ts_rank
+const searchVector = sql`(
+  setweight(to_tsvector('english', coalesce(${issues.title}, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(${issues.labels}::text, '')), 'B') ||
+  setweight(to_tsvector('english', ${issues.repositoryOwner} || ' ' || ${issues.repositoryName}), 'C') ||
+  setweight(to_tsvector('english', coalesce(${issues.body}, '')), 'D')
+)`;
+
+// ts_rank takes weights in D, C, B, A order, scaled so a title match counts 1
+const searchWeights = `{${[SEARCH_FIELD_BOOSTS.body, SEARCH_FIELD_BOOSTS.repository, SEARCH_FIELD_BOOSTS.labels, SEARCH_FIELD_BOOSTS.title]
+  .map(boost => (boost / SEARCH_FIELD_BOOSTS.title).toFixed(2))
+  .join(",")}}`;
+
+// Postgres counterpart of SearchIndex.score: weighted full-text rank, plus a discounted
+// bonus for title words similar to each token so misspelled searches still order sensibly
+function relevanceScore(tokens: string[], typoTolerant: boolean): SQL<number> {
+  const query = sql`websearch_to_tsquery('english', ${tokens.join(" or ")})`;
+  const rank = sql`ts_rank(${searchWeights}::float4[], ${searchVector}, ${query})`;
+  if (!typoTolerant) return sql<number>`round(${rank}::numeric, 3)::float8`;
+
+  const similarity = sql.join(tokens.map(token => sql`word_similarity(${token}, ${issues.title})`), sql` + `);
+  return sql<number>`round((${rank} + ${TYPO_PENALTY} * (${similarity}) / ${tokens.length})::numeric, 3)::float8`;
+}
+
+// Mirrors MemStorage's matchesSearchTerm. Typos are caught by pg_trgm word similarity
+// rather than SearchIndex's edit distance, so borderline misspellings can differ.
+function searchTermCondition(term: SearchTerm, typoTolerant: boolean): SQL {
+  switch (term.kind) {
+    case "text": {
+      const pattern = likePattern(term.value.toLowerCase());
+      const tokens = typoTolerant ? fuzzyTokens(term).filter(token => allowedEdits(token) > 0) : [];
+      return or(
+        ilike(issues.title, pattern),
+        ilike(issues.body, pattern),
+        ilike(issues.repositoryName, pattern),
+        ilike(issues.repositoryOwner, pattern),
+        ilike(issues.language, pattern),
+        sql`exists (select 1 from jsonb_array_elements_text(coalesce(${issues.labels}, '[]'::jsonb)) as label where label ilike ${pattern})`,
+        ...(tokens.length > 0 ? [allOf(tokens.map(token => sql`word_similarity(${token}, ${searchDocument}) >= ${TYPO_SIMILARITY}`))] : []),
+      )!;
+    }
+    case "lang":
+      return sql`lower(${issues.language}) = ${term.value.toLowerCase()}`;
+    case "label":
+      return sql`exists (select 1 from jsonb_array_elements_text(coalesce(${issues.labels}, '[]'::jsonb)) as label where lower(label) = ${term.value.toLowerCase()})`;
+    case "org":
+      return sql`lower(${issues.repositoryOwner}) = ${term.value.toLowerCase()}`;
+    case "repo":
+      return term.value.includes("/")
+        ? sql`lower(${issues.repositoryOwner} || '/' || ${issues.repositoryName}) = ${term.value.toLowerCase()}`
+        : sql`lower(${issues.repositoryName}) = ${term.value.toLowerCase()}`;
+    case "stars":
+      return rangeCondition(repositoryStars, term.range);
+    case "comments":
+      return rangeCondition(sql`coalesce(${issues.comments}, 0)`, term.range);
+    case "created":
+    case "updated": {
+      // Only GitHub's timestamps count, so issues missing them never match a window
+      const time = term.kind === "created" ? sql`${issues.githubCreatedAt}` : sql`${issues.githubUpdatedAt}`;
+      return allOf([
+        sql`${time} is not null`,
+        ...(term.range.after ? [gte(time, term.range.after)] : []),
+        ...(term.range.before ? [lt(time, term.range.before)] : []),
+      ]);
+    }
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  // Whether pg_trgm is available; without it text search only matches exact substrings
+  private typoTolerant = true;
+
+  constructor(private db: Database) {}
+
+  // Lifecycle methods
+  async init(): Promise<void> {
+    // Schema is managed by drizzle-kit (npm run db:push), which doesn't manage extensions.
+    // pg_trgm provides the word similarity behind typo-tolerant search. Creating it needs the
+    // CREATE privilege, which managed Postgres roles often lack, so it is only attempted
+    // when missing, and search works without typo tolerance if that fails.
+    const installed = await this.db
+      .select({ name: sql<string>`extname` })
+      .from(sql`pg_extension`)
+      .where(sql`extname = 'pg_trgm'`);
+    if (installed.length > 0) return;
+
+    try {
+      await this.db.execute(sql`create extension if not exists pg_trgm`);
+    } catch (error) {
+      this.typoTolerant = false;
+      console.warn(
+        `Could not create the pg_trgm extension (${error instanceof Error ? error.message : String(error)}); ` +
+        'searching without typo tolerance. Run "create extension pg_trgm" as a privileged role to enable it.',
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    // Every write goes straight to the database, nothing to flush
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByGithubId(githubId: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.githubId, githubId));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        ...insertUser,
+        topLanguages: Array.isArray(insertUser.topLanguages) ? [...insertUser.topLanguages] : [],
+      })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: string, updateData: Partial<InsertUser>): Promise<User | undefined> {
+    const { topLanguages, ...rest } = updateData;
+    const [user] = await this.db
+      .update(users)
+      .set({
+        ...rest,
+        ...(Array.isArray(topLanguages) ? { topLanguages: [...topLanguages] } : {}),
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Repository methods
+  async getRepository(id: string): Promise<Repository | undefined> {
+    const [repository] = await this.db.select().from(repositories).where(eq(repositories.id, id));
+    return repository;
+  }
+
+  async getRepositoryByGithubId(githubId: number): Promise<Repository | undefined> {
+    const [repository] = await this.db.select().from(repositories).where(eq(repositories.githubId, githubId));
+    return repository;
+  }
+
+  async getRepositoryByFullName(owner: string, name: string): Promise<Repository | undefined> {
+    const [repository] = await this.db
+      .select()
+      .from(repositories)
+      .where(eq(sql`lower(${repositories.fullName})`, `${owner}/${name}`.toLowerCase()));
+    return repository;
+  }
+
+  async createRepository(insertRepository: InsertRepository): Promise<Repository> {
+    const [repository] = await this.db
+      .insert(repositories)
+      .values({
+        ...insertRepository,
+        topics: Array.isArray(insertRepository.topics) ? [...insertRepository.topics] : [],
+      })
+      .returning();
+    return repository;
+  }
+
+  async updateRepository(id: string, updateData: Partial<InsertRepository>): Promise<Repository | undefined> {
+    const { topics, ...rest } = updateData;
+    const [repository] = await this.db
+      .update(repositories)
+      .set({
+        ...rest,
+        ...(Array.isArray(topics) ? { topics: [...topics] } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(repositories.id, id))
+      .returning();
+    return repository;
+  }
+
+  // Issue methods
+  async getIssue(id: string): Promise<Issue | undefined> {
+    const [issue] = await this.db.select().from(issues).where(eq(issues.id, id));
+    return issue;
+  }
+
+  async getIssueByGithubId(githubId: number): Promise<Issue | undefined> {
+    const [issue] = await this.db.select().from(issues).where(eq(issues.githubId, githubId));
+    return issue;
+  }
+
+  async getIssues(filters: IssueFilters): Promise<{ issues: SearchResultIssue[]; total: number }> {
+    const terms = parseSearchTerms(filters);
+    const where = and(...this.buildIssueConditions(filters, terms));
+    const tokens = searchTokens(terms);
+    const relevance = tokens.length > 0 ? relevanceScore(tokens, this.typoTolerant) : undefined;
+
+    let orderBy: SQL[];
+    switch (filters.sortBy || "recent") {
+      // Without text to rank by, relevance falls back to most recent
+      case "relevance":
+        orderBy = relevance ? [desc(relevance), desc(issueUpdatedAt)] : [desc(issueUpdatedAt)];
+        break;
+      case "stars":
+        orderBy = [desc(repositoryStars)];
+        break;
+      case "comments":
+        orderBy = [desc(sql`coalesce(${issues.comments}, 0)`)];
+        break;
+      case "match":
+        orderBy = [desc(sql`coalesce(${issues.isRecommended}, false)`)];
+        break;
+      case "recent":
+      default:
+        orderBy = [desc(issueUpdatedAt)];
+    }
+
+    const page = await this.paginate(where, orderBy, filters, {
+      ...getTableColumns(issues),
+      ...(relevance ? { relevance } : {}),
+    });
+    return {
+      issues: page.issues.map(issue => withSearchMatch(issue, terms, issue.relevance)),
+      total: page.total,
+    };
+  }
+
+  async getIssuesByRepositoryId(repositoryId: string): Promise<Issue[]> {
+    return this.db.select().from(issues).where(eq(issues.repositoryId, repositoryId));
+  }
+
+  async getAllIssues(): Promise<Issue[]> {
+    return this.db.select().from(issues);
+  }
+
+  async getIssuesToReconcile(limit: number): Promise<Issue[]> {
+    return this.db
+      .select()
+      .from(issues)
+      .where(eq(issues.state, 'open'))
+      .orderBy(
+        desc(sql`exists (select 1 from ${bookmarks} where ${bookmarks.issueId} = ${issues.id})`),
+        sql`${issues.lastCheckedAt} asc nulls first`,
+      )
+      .limit(limit);
+  }
+
+  async createIssue(insertIssue: InsertIssue): Promise<Issue> {
+    const [issue] = await this.db
+      .insert(issues)
+      .values({
+        ...insertIssue,
+        labels: Array.isArray(insertIssue.labels) ? [...insertIssue.labels] : [],
+        assignees: Array.isArray(insertIssue.assignees) ? [...insertIssue.assignees] : [],
+      })
+      .returning();
+    return issue;
+  }
+
+  async updateIssue(id: string, updateData: Partial<InsertIssue>): Promise<Issue | undefined> {
+    const { labels, assignees, ...rest } = updateData;
+    const [issue] = await this.db
+      .update(issues)
+      .set({
+        ...rest,
+        ...(Array.isArray(labels) ? { labels: [...labels] } : {}),
+        ...(Array.isArray(assignees) ? { assignees: [...assignees] } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(issues.id, id))
+      .returning();
+    return issue;
+  }
+
+  async getRecommendedIssuesForUser(userId: string, filters: IssueFilters): Promise<{ issues: RecommendedIssue[]; total: number }> {
+    const user = await this.getUser(userId);
+    if (!user) return { issues: [], total: 0 };
+
+    const topLanguages = user.topLanguages || [];
+    const terms = parseSearchTerms(filters);
+    const feedback = await this.getUserFeedback(userId);
+    const conditions = this.recommendableConditions(user, feedback, filters, terms);
+    const tokens = searchTokens(terms);
+
+    const languageMatch = isOneOf(sql`${issues.language}`, topLanguages);
+
+    const bySearchRelevance = filters.sortBy === "relevance" && tokens.length > 0;
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+    const start = (page - 1) * limit;
+
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(issues)
+      .where(and(...conditions));
+
+    // Signals are evaluated in process, so only the candidates the SQL-computable signals
+    // favour most are loaded and ranked, never fewer than the requested page needs
+    const candidates = await this.db
+      .select({
+        ...getTableColumns(issues),
+        isRecommended: sql<boolean>`(${languageMatch} or ${hasRecommendedLabel})`,
+        ...(tokens.length > 0 ? { relevance: relevanceScore(tokens, this.typoTolerant) } : {}),
+      })
+      .from(issues)
+      .where(and(...conditions))
+      .orderBy(
+        ...(bySearchRelevance ? [desc(relevanceScore(tokens, this.typoTolerant))] : []),
+        desc(staticRankingScore(languageMatch, feedback)),
+        asc(issues.id),
+      )
+      .limit(Math.max(RANKING_CANDIDATE_LIMIT, start + limit));
+
+    // A relevance sort puts the best text matches first and keeps the ranked order among ties
+    const rankedIssues = ranker.rank(candidates, user, feedback);
+    if (bySearchRelevance) {
+      rankedIssues.sort((a, b) => (b.relevance || 0) - (a.relevance || 0));
+    }
+
+    return {
+      issues: rankedIssues.slice(start, start + limit).map(issue => withSearchMatch(issue, terms, issue.relevance)),
+      total,
+    };
+  }
+
+  async getIssueFacets(filters: IssueFilters, userId?: string): Promise<IssueFacets> {
+    const terms = parseSearchTerms(filters);
+    let matching = (facetFilters: IssueFilters) => and(...this.buildIssueConditions(facetFilters, terms));
+
+    if (userId) {
+      const user = await this.getUser(userId);
+      if (!user) return emptyFacets();
+      const feedback = await this.getUserFeedback(userId);
+      matching = facetFilters => and(...this.recommendableConditions(user, feedback, facetFilters, terms));
+    }
+
+    const where = matching(filters);
+    const [languages, difficulties, repositorySizes, labels, owners] = await Promise.all([
+      this.countFacet(issues.language, matching({ ...filters, languages: undefined })),
+      this.countFacet(issues.difficulty, matching({ ...filters, difficulty: undefined })),
+      this.countFacet(repositorySize, matching({ ...filters, repositorySize: undefined })),
+      this.countFacet(sql`label`, where, FACET_LIMIT, issueLabels),
+      this.countFacet(issues.repositoryOwner, where, FACET_LIMIT),
+    ]);
+    return { languages, difficulties, repositorySizes, labels, owners };
+  }
+
+  // GitHub response cache methods
+  async getCachedResponse(endpoint: string): Promise<CachedGitHubResponse | undefined> {
+    const [response] = await this.db.select().from(githubResponseCache).where(eq(githubResponseCache.endpoint, endpoint));
+    return response;
+  }
+
+  async setCachedResponse(insertResponse: InsertCachedGitHubResponse): Promise<CachedGitHubResponse> {
+    const values = { ...insertResponse, fetchedAt: new Date() };
+    const [response] = await this.db
+      .insert(githubResponseCache)
+      .values(values)
+      .onConflictDoUpdate({ target: githubResponseCache.endpoint, set: values })
+      .returning();
+    return response;
+  }
+
+  // Sync run methods
+  async getSyncRun(id: string): Promise<SyncRun | undefined> {
+    const [syncRun] = await this.db.select().from(syncRuns).where(eq(syncRuns.id, id));
+    return syncRun;
+  }
+
+  async getSyncRuns(limit: number): Promise<SyncRun[]> {
+    return this.db.select().from(syncRuns).orderBy(desc(syncRuns.createdAt)).limit(limit);
+  }
+
+  async createSyncRun(insertSyncRun: InsertSyncRun): Promise<SyncRun> {
+    const [syncRun] = await this.db
+      .insert(syncRuns)
+      .values({
+        ...insertSyncRun,
+        errors: Array.isArray(insertSyncRun.errors) ? [...insertSyncRun.errors] : [],
+      })
+      .returning();
+    return syncRun;
+  }
+
+  async updateSyncRun(id: string, updateData: Partial<InsertSyncRun>): Promise<SyncRun | undefined> {
+    const { errors, ...rest } = updateData;
+    const [syncRun] = await this.db
+      .update(syncRuns)
+      .set({
+        ...rest,
+        ...(Array.isArray(errors) ? { errors: [...errors] } : {}),
+      })
+      .where(eq(syncRuns.id, id))
+      .returning();
+    return syncRun;
+  }
+
+  // Sync query methods
+  async getSyncQueries(): Promise<SyncQuery[]> {
+    return this.db.select().from(syncQueries).orderBy(desc(syncQueries.priority), asc(syncQueries.createdAt));
+  }
+
+  async getSyncQuery(id: string): Promise<SyncQuery | undefined> {
+    const [syncQuery] = await this.db.select().from(syncQueries).where(eq(syncQueries.id, id));
+    return syncQuery;
+  }
+
+  async createSyncQuery(insertSyncQuery: InsertSyncQuery): Promise<SyncQuery> {
+    const [syncQuery] = await this.db.insert(syncQueries).values(insertSyncQuery).returning();
+    return syncQuery;
+  }
+
+  async updateSyncQuery(id: string, updateData: Partial<InsertSyncQuery>): Promise<SyncQuery | undefined> {
+    const [syncQuery] = await this.db
+      .update(syncQueries)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(syncQueries.id, id))
+      .returning();
+    return syncQuery;
+  }
+
+  async deleteSyncQuery(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(syncQueries).where(eq(syncQueries.id, id)).returning({ id: syncQueries.id });
+    return deleted.length > 0;
+  }
+
+  // Sync cursor methods
+  async getSyncCursor(query: string): Promise<SyncCursor | undefined> {
+    const [cursor] = await this.db.select().from(syncCursors).where(eq(syncCursors.query, query));
+    return cursor;
+  }
+
+  async setSyncCursor(query: string, lastSyncedAt: Date): Promise<SyncCursor> {
+    const values = { query, lastSyncedAt, updatedAt: new Date() };
+    const [cursor] = await this.db
+      .insert(syncCursors)
+      .values(values)
+      .onConflictDoUpdate({ target: syncCursors.query, set: values })
+      .returning();
+    return cursor;
+  }
+
+  // Feedback methods
+  async getUserFeedback(userId: string): Promise<UserFeedback[]> {
+    return this.db.select().from(userFeedback).where(eq(userFeedback.userId, userId)).orderBy(asc(userFeedback.createdAt));
+  }
+
+  // Repeating the same feedback returns the existing record
+  async createUserFeedback(insertFeedback: InsertUserFeedback): Promise<UserFeedback> {
+    const [created] = await this.db.insert(userFeedback).values(insertFeedback).onConflictDoNothing().returning();
+    if (created) return created;
+
+    const [existing] = await this.db
+      .select()
+      .from(userFeedback)
+      .where(and(
+        eq(userFeedback.userId, insertFeedback.userId),
+        eq(userFeedback.action, insertFeedback.action),
+        eq(userFeedback.target, insertFeedback.target),
+      ));
+    return existing;
+  }
+
+  async deleteUserFeedback(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(userFeedback)
+      .where(and(eq(userFeedback.id, id), eq(userFeedback.userId, userId)))
+      .returning({ id: userFeedback.id });
+    return deleted.length > 0;
+  }
+
+  // Bookmark methods
+  async getBookmarkedIssues(userId: string): Promise<BookmarkedIssue[]> {
+    return this.db
+      .select({ ...getTableColumns(issues), bookmarkedAt: bookmarks.createdAt })
+      .from(bookmarks)
+      .innerJoin(issues, eq(bookmarks.issueId, issues.id))
+      .where(eq(bookmarks.userId, userId))
+      .orderBy(desc(bookmarks.createdAt));
+  }
+
+  // Bookmarking an issue twice returns the existing bookmark
+  async createBookmark(insertBookmark: InsertBookmark): Promise<Bookmark> {
+    const [created] = await this.db.insert(bookmarks).values(insertBookmark).onConflictDoNothing().returning();
+    if (created) return created;
+
+    const [existing] = await this.db
+      .select()
+      .from(bookmarks)
+      .where(and(eq(bookmarks.userId, insertBookmark.userId), eq(bookmarks.issueId, insertBookmark.issueId)));
+    return existing;
+  }
+
+  async deleteBookmark(userId: string, issueId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(bookmarks)
+      .where(and(eq(bookmarks.userId, userId), eq(bookmarks.issueId, issueId)))
+      .returning({ id: bookmarks.id });
+    return deleted.length > 0;
+  }
+
+  // Contribution methods
+  async getContributions(userId: string): Promise<ContributionWithIssue[]> {
+    const rows = await this.db
+      .select({ contribution: contributions, issue: issues })
+      .from(contributions)
+      .innerJoin(issues, eq(contributions.issueId, issues.id))
+      .where(eq(contributions.userId, userId))
+      .orderBy(desc(contributions.updatedAt));
+    return rows.map(({ contribution, issue }) => ({ ...contribution, issue }));
+  }
+
+  async getContribution(userId: string, issueId: string): Promise<Contribution | undefined> {
+    const [contribution] = await this.db
+      .select()
+      .from(contributions)
+      .where(and(eq(contributions.userId, userId), eq(contributions.issueId, issueId)));
+    return contribution;
+  }
+
+  async getOpenContributions(): Promise<Contribution[]> {
+    return this.db
+      .select()
+      .from(contributions)
+      .where(notInArray(contributions.status, ['merged', 'abandoned']));
+  }
+
+  async createContribution(insertContribution: InsertContribution): Promise<Contribution> {
+    const [contribution] = await this.db
+      .insert(contributions)
+      .values({
+        ...insertContribution,
+        history: Array.isArray(insertContribution.history) ? [...insertContribution.history] : [],
+      })
+      .returning();
+    return contribution;
+  }
+
+  async updateContribution(id: string, updateData: Partial<InsertContribution>): Promise<Contribution | undefined> {
+    const { history, ...rest } = updateData;
+    const [contribution] = await this.db
+      .update(contributions)
+      .set({
+        ...rest,
+        ...(Array.isArray(history) ? { history: [...history] } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(contributions.id, id))
+      .returning();
+    return contribution;
+  }
+
+  // Preference methods
+  async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
+    const [preferences] = await this.db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    return preferences;
+  }
+
+  async saveUserPreferences(insertPreferences: InsertUserPreferences): Promise<UserPreferences> {
+    const { defaultDifficulties, preferredLanguages, excludedLanguages, hiddenOrgs, hiddenRepositories, hiddenLabels, ...rest } = insertPreferences;
+    const values = {
+      ...rest,
+      ...(defaultDifficulties ? { defaultDifficulties: [...defaultDifficulties] } : {}),
+      ...(preferredLanguages ? { preferredLanguages: [...preferredLanguages] } : {}),
+      ...(excludedLanguages ? { excludedLanguages: [...excludedLanguages] } : {}),
+      ...(hiddenOrgs ? { hiddenOrgs: [...hiddenOrgs] } : {}),
+      ...(hiddenRepositories ? { hiddenRepositories: [...hiddenRepositories] } : {}),
+      ...(hiddenLabels ? { hiddenLabels: [...hiddenLabels] } : {}),
+      updatedAt: new Date(),
+    };
+    const [preferences] = await this.db
+      .insert(userPreferences)
+      .values(values)
+      .onConflictDoUpdate({ target: userPreferences.userId, set: values })
+      .returning();
+    return preferences;
+  }
+
+  // Saved search methods
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches).where(eq(savedSearches.userId, userId)).orderBy(asc(savedSearches.createdAt));
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches);
+  }
+
+  async createSavedSearch(insertSavedSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const { seenIssueIds, ...rest } = insertSavedSearch;
+    const [savedSearch] = await this.db
+      .insert(savedSearches)
+      .values({ ...rest, seenIssueIds: seenIssueIds ? [...seenIssueIds] : [] })
+      .returning();
+    return savedSearch;
+  }
+
+  async updateSavedSearch(id: string, updateData: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const { seenIssueIds, ...rest } = updateData;
+    const [savedSearch] = await this.db
+      .update(savedSearches)
+      .set({ ...rest, ...(seenIssueIds ? { seenIssueIds: [...seenIssueIds] } : {}) })
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return savedSearch;
+  }
+
+  async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [savedSearch] = await tx
+        .select({ id: savedSearches.id })
+        .from(savedSearches)
+        .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+      if (!savedSearch) return false;
+
+      await tx.delete(notifications).where(eq(notifications.savedSearchId, id));
+      await tx.delete(savedSearches).where(eq(savedSearches.id, id));
+      return true;
+    });
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, limit: number): Promise<NotificationWithSearch[]> {
+    const rows = await this.db
+      .select({
+        notification: notifications,
+        savedSearch: { id: savedSearches.id, name: savedSearches.name, filters: savedSearches.filters },
+      })
+      .from(notifications)
+      .innerJoin(savedSearches, eq(notifications.savedSearchId, savedSearches.id))
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+    return rows.map(({ notification, savedSearch }) => ({ ...notification, savedSearch }));
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db
+      .insert(notifications)
+      .values({ ...insertNotification, issueIds: [...insertNotification.issueIds] })
+      .returning();
+    return notification;
+  }
+
+  async markNotificationsRead(userId: string): Promise<number> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Mirrors MemStorage's recommendableIssues
+  private recommendableConditions(user: User, feedback: UserFeedback[], filters: IssueFilters, terms: SearchTerm[]): SQL[] {
+    const topLanguages = user.topLanguages || [];
+    const conditions = this.buildIssueConditions(filters, terms);
+
+    const dismissedIds = feedback.filter(item => item.action === 'dismiss').map(item => item.target);
+    if (dismissedIds.length > 0) {
+      conditions.push(notInArray(issues.id, dismissedIds));
+    }
+
+    // Only prioritize user languages when not searching
+    if (!filters.search?.trim() && topLanguages.length > 0) {
+      conditions.push(or(isNull(issues.language), inArray(issues.language, topLanguages))!);
+    }
+
+    return conditions;
+  }
+
+  // Issues per distinct value, most common first
+  private async countFacet(value: SQL | PgColumn, where: SQL | undefined, limit?: number, from: SQL | typeof issues = issues): Promise<FacetCount[]> {
+    const query = this.db
+      .select({ value: sql<string>`${value}`, count: sql<number>`count(*)::int` })
+      .from(from)
+      .where(and(where, sql`${value} is not null`))
+      .groupBy(value)
+      .orderBy(desc(sql`count(*)`), asc(value));
+    return limit === undefined ? query : query.limit(limit);
+  }
+
+  private buildIssueConditions(filters: IssueFilters, terms: SearchTerm[]): SQL[] {
+    const conditions: SQL[] = [];
+
+    // Hide issues nobody can pick up unless asked for; locked issues count as closed
+    if (!filters.includeClosed) {
+      conditions.push(eq(issues.state, 'open'), sql`not coalesce(${issues.locked}, false)`);
+    }
+
+    if (!filters.includeAssigned) {
+      conditions.push(sql`jsonb_array_length(coalesce(${issues.assignees}, '[]'::jsonb)) = 0`);
+    }
+
+    for (const term of terms) {
+      const condition = searchTermCondition(term, this.typoTolerant);
+      conditions.push(term.negated ? sql`not coalesce(${condition}, false)` : condition);
+    }
+
+    if (filters.languages && filters.languages.length > 0) {
+      conditions.push(inArray(issues.language, filters.languages));
+    }
+
+    if (filters.excludeLanguages && filters.excludeLanguages.length > 0) {
+      conditions.push(or(isNull(issues.language), notInArray(issues.language, filters.excludeLanguages))!);
+    }
+
+    // GitHub owner names are case-insensitive
+    if (filters.excludeOwners && filters.excludeOwners.length > 0) {
+      conditions.push(notInArray(sql`lower(${issues.repositoryOwner})`, filters.excludeOwners.map(owner => owner.toLowerCase())));
+    }
+
+    // Like repo: in the search box, a bare name hides the repository under any owner
+    if (filters.excludeRepositories && filters.excludeRepositories.length > 0) {
+      const excludedRepositories = filters.excludeRepositories.map(repository => repository.toLowerCase());
+      conditions.push(
+        notInArray(sql`lower(${issues.repositoryOwner} || '/' || ${issues.repositoryName})`, excludedRepositories),
+        notInArray(sql`lower(${issues.repositoryName})`, excludedRepositories),
+      );
+    }
+
+    if (filters.excludeLabels && filters.excludeLabels.length > 0) {
+      const excludedLabels = filters.excludeLabels.map(label => sql`${label.toLowerCase()}`);
+      conditions.push(sql`not exists (
+        select 1 from jsonb_array_elements_text(coalesce(${issues.labels}, '[]'::jsonb)) as label
+        where lower(label) in (${sql.join(excludedLabels, sql`, `)})
+      )`);
+    }
+
+    if (filters.difficulty && filters.difficulty.length > 0) {
+      conditions.push(inArray(issues.difficulty, filters.difficulty));
+    }
+
+    if (filters.minDifficultyConfidence) {
+      conditions.push(gte(sql`coalesce(${issues.difficultyConfidence}, 0)`, filters.minDifficultyConfidence));
+    }
+
+    switch (filters.repositorySize) {
+      case "small":
+        conditions.push(lt(repositoryStars, 100));
+        break;
+      case "medium":
+        conditions.push(and(gte(repositoryStars, 100), lt(repositoryStars, 1000))!);
+        break;
+      case "large":
+        conditions.push(gte(repositoryStars, 1000));
+        break;
+    }
+
+    return conditions;
+  }
+
+  private async paginate(
+    where: SQL | undefined,
+    orderBy: SQL[],
+    filters: IssueFilters,
+    columns: SelectedFields,
+  ): Promise<{ issues: SearchResultIssue[]; total: number }> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(issues)
+      .where(where);
+
+    const rows = await this.db
+      .select(columns)
+      .from(issues)
+      .where(where)
+      // Tie-break on id so pages stay stable between requests
+      .orderBy(...orderBy, asc(issues.id))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return { issues: rows as unknown as SearchResultIssue[], total };
+  }
+}
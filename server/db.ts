@@ -0,0 +1,17 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database built over our schema (Neon in production,
+// node-postgres or pglite when running against a local instance).
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
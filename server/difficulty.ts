@@ -0,0 +1,101 @@
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface DifficultyInput {
+  labels: string[];
+  title: string;
+  body?: string | null;
+  comments?: number | null;
+  repositoryStars?: number | null;
+}
+
+export interface DifficultyClassification {
+  difficulty: Difficulty;
+  // 0 when nothing pointed anywhere, approaching 1 as the evidence agrees
+  confidence: number;
+}
+
+// Maintainers' own difficulty labels outweigh every other hint combined
+const LABEL_EVIDENCE = 3;
+
+const LABEL_PATTERNS: Array<[Difficulty, RegExp]> = [
+  ['beginner', /good first issue|beginner|\beasy\b|first-timers|starter|low hanging fruit/],
+  ['intermediate', /intermediate|medium|moderate/],
+  ['advanced', /advanced|\bhard\b|expert|complex|difficult/],
+];
+
+const KEYWORD_PATTERNS: Array<[Difficulty, RegExp]> = [
+  ['beginner', /\btypos?\b|spelling|\bdocs?\b|documentation|readme|broken link|translation|\brename\b|wording/g],
+  ['intermediate', /\bimplement\b|\bnew option\b|\bsupport for\b|\badd (a |an )?(flag|option|command|endpoint)\b|\bvalidation\b|\btest coverage\b/g],
+  ['advanced', /\brefactor(ing)?\b|race condition|deadlock|concurren(cy|t)|memory leak|\bperformance\b|architecture|\bsecurity\b|\bmigration\b|thread[- ]safe|segfault|\bregression\b|\bbreaking change\b/g],
+];
+
+const FILE_REFERENCE = /(?:^|[\s`(])([\w.-]+\/)*[\w-]+\.(?:ts|tsx|js|jsx|py|go|rs|rb|java|kt|c|cc|cpp|h|hpp|cs|php|swift|vue|svelte|md|json|ya?ml|toml)\b/gm;
+
+// Weighs every hint towards a difficulty level; the strongest level wins and confidence
+// reflects how much of the total evidence backs it
+export function classifyDifficulty(input: DifficultyInput): DifficultyClassification {
+  const evidence: Record<Difficulty, number> = { beginner: 0, intermediate: 0, advanced: 0 };
+  const body = input.body || '';
+
+  const labelText = input.labels.join(' ').toLowerCase();
+  for (const [difficulty, pattern] of LABEL_PATTERNS) {
+    if (pattern.test(labelText)) evidence[difficulty] += LABEL_EVIDENCE;
+  }
+
+  const text = `${input.title} ${body}`.toLowerCase();
+  for (const [difficulty, pattern] of KEYWORD_PATTERNS) {
+    evidence[difficulty] += Math.min(text.match(pattern)?.length || 0, 2);
+  }
+
+  // Long write-ups usually describe involved problems; a sentence or two rarely does
+  if (body.length < 300) {
+    evidence.beginner += 0.5;
+  } else if (body.length > 2000) {
+    evidence.advanced += 1;
+  } else {
+    evidence.intermediate += 0.5;
+  }
+
+  const codeBlocks = Math.floor((body.match(/```/g)?.length || 0) / 2);
+  if (codeBlocks >= 3) {
+    evidence.advanced += 1;
+  } else if (codeBlocks > 0) {
+    evidence.intermediate += 0.5;
+  }
+
+  const referencedFiles = new Set(Array.from(body.matchAll(FILE_REFERENCE), match => match[0].trim())).size;
+  if (referencedFiles > 3) {
+    evidence.advanced += 1;
+  } else if (referencedFiles > 1) {
+    evidence.intermediate += 0.5;
+  } else if (referencedFiles === 1) {
+    evidence.beginner += 0.5;
+  }
+
+  // Long discussions tend to mean the fix is contested or subtle
+  const comments = input.comments || 0;
+  if (comments > 10) {
+    evidence.advanced += 1;
+  } else if (comments >= 3) {
+    evidence.intermediate += 0.5;
+  }
+
+  const stars = input.repositoryStars || 0;
+  if (stars >= 10_000) {
+    evidence.advanced += 0.5;
+  } else if (stars > 0 && stars < 1000) {
+    evidence.beginner += 0.5;
+  }
+
+  // Ties resolve towards the harder level so uncertain issues aren't advertised as easy
+  const ranked = (['advanced', 'intermediate', 'beginner'] as const)
+    .map(difficulty => [difficulty, evidence[difficulty]] as const)
+    .sort(([, a], [, b]) => b - a);
+  const [difficulty, strongest] = ranked[0];
+  const total = evidence.beginner + evidence.intermediate + evidence.advanced;
+
+  return {
+    difficulty,
+    confidence: Math.round((strongest / (total + 1)) * 100) / 100,
+  };
+}
@@ -0,0 +1,34 @@
+import type { FacetCount, Issue, IssueFacets } from "@shared/schema";
+
+// Labels and organizations have a long tail; only the most common are returned
+export const FACET_LIMIT = 20;
+
+// The buckets of the repositorySize filter
+export function repositorySizeOf(stars: number | null): "small" | "medium" | "large" {
+  const count = stars || 0;
+  if (count < 100) return "small";
+  if (count < 1000) return "medium";
+  return "large";
+}
+
+// Most common first, ties alphabetically. An issue counts once per distinct value.
+export function countFacet(
+  issues: Issue[],
+  valuesOf: (issue: Issue) => Array<string | null | undefined>,
+  limit?: number,
+): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const issue of issues) {
+    for (const value of Array.from(new Set(valuesOf(issue)))) {
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+
+  const facet = Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  return limit === undefined ? facet : facet.slice(0, limit);
+}
+
+export function emptyFacets(): IssueFacets {
+  return { languages: [], difficulties: [], repositorySizes: [], labels: [], owners: [] };
+}
@@ -0,0 +1,309 @@
+import type { CachedGitHubResponse, InsertCachedGitHubResponse } from "@shared/schema";
+import { storage } from "./storage";
+
+const DEFAULT_GITHUB_API_BASE = "https://api.github.com";
+
+export interface GitHubUser {
+  id: number;
+  login: string;
+  avatar_url: string;
+  name: string;
+  bio: string;
+  public_repos: number;
+  followers: number;
+  following: number;
+}
+
+export interface GitHubRepo {
+  id: number;
+  name: string;
+  full_name: string;
+  owner: { login: string };
+  description: string;
+  language: string;
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  private: boolean;
+  fork: boolean;
+  topics?: string[];
+  license: { spdx_id: string; name: string } | null;
+  default_branch: string;
+  pushed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GitHubIssue {
+  id: number;
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  labels: Array<{ name: string }>;
+  assignees?: Array<{ login: string }>;
+  locked: boolean;
+  comments: number;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  repository_url: string;
+}
+
+// Anything fetch-compatible; lets tests point the client at a local mock server
+export type GitHubTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+// Where ETags and bodies are kept for conditional requests; IStorage implements this
+export interface GitHubResponseCache {
+  getCachedResponse(endpoint: string): Promise<CachedGitHubResponse | undefined>;
+  setCachedResponse(response: InsertCachedGitHubResponse): Promise<CachedGitHubResponse>;
+}
+
+export interface GitHubClientOptions {
+  baseUrl?: string;
+  token?: string;
+  transport?: GitHubTransport;
+  cache?: GitHubResponseCache;
+  // Requests allowed in flight at once; GitHub recommends serial requests to avoid secondary limits
+  concurrency?: number;
+  maxRetries?: number;
+  // Longest we are willing to sleep for a rate limit reset before giving up
+  maxWaitMs?: number;
+}
+
+export interface RateLimitBudget {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
+}
+
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public endpoint: string,
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function resourceForEndpoint(endpoint: string): string {
+  return endpoint.startsWith("/search/") ? "search" : "core";
+}
+
+// Search URLs carry each run's updated:>= cursor, so no search page is requested twice;
+// caching them would only grow the cache
+function isCacheable(endpoint: string): boolean {
+  return resourceForEndpoint(endpoint) !== "search";
+}
+
+export class GitHubClient {
+  private baseUrl: string;
+  private token?: string;
+  private transport: GitHubTransport;
+  private cache?: GitHubResponseCache;
+  private concurrency: number;
+  private maxRetries: number;
+  private maxWaitMs: number;
+
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private rateLimits = new Map<string, RateLimitBudget>();
+
+  constructor(options: GitHubClientOptions = {}) {
+    this.baseUrl = options.baseUrl || DEFAULT_GITHUB_API_BASE;
+    this.token = options.token;
+    this.transport = options.transport || fetch;
+    this.cache = options.cache;
+    this.concurrency = options.concurrency || 1;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.maxWaitMs = options.maxWaitMs ?? 60_000;
+  }
+
+  getRateLimits(): RateLimitBudget[] {
+    return Array.from(this.rateLimits.values());
+  }
+
+  async request<T = any>(endpoint: string): Promise<T> {
+    await this.acquire();
+    try {
+      return await this.requestWithRetry<T>(endpoint);
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.queue.push(resolve));
+  }
+
+  private release() {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async requestWithRetry<T>(endpoint: string): Promise<T> {
+    const cached = isCacheable(endpoint) ? await this.cache?.getCachedResponse(endpoint) : undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget(endpoint);
+
+      let response: Response;
+      try {
+        response = await this.transport(`${this.baseUrl}${endpoint}`, { headers: this.buildHeaders(cached) });
+      } catch (error) {
+        // Network failures are retried like 5xx responses
+        if (attempt >= this.maxRetries) throw error;
+        await sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      this.recordRateLimit(endpoint, response.headers);
+
+      // 304s don't count against the rate limit, so replaying the cached body is free
+      if (response.status === 304 && cached) {
+        return cached.body as T;
+      }
+
+      if (response.ok) {
+        const body = await response.json();
+        await this.storeResponse(endpoint, response.headers, body);
+        return body;
+      }
+
+      const retryAfterMs = await this.retryDelay(response, attempt);
+      if (retryAfterMs === undefined || attempt >= this.maxRetries || retryAfterMs > this.maxWaitMs) {
+        throw new GitHubApiError(
+          `GitHub API error: ${response.status} ${response.statusText}`,
+          response.status,
+          endpoint,
+          retryAfterMs,
+        );
+      }
+
+      console.warn(`GitHub API ${response.status} for ${endpoint}, retrying in ${retryAfterMs}ms`);
+      await sleep(retryAfterMs);
+    }
+  }
+
+  private buildHeaders(cached?: CachedGitHubResponse): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'GitHub-Issue-Recommender'
+    };
+
+    if (this.token) {
+      headers['Authorization'] = `token ${this.token}`;
+    }
+
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    } else if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    return headers;
+  }
+
+  private async storeResponse(endpoint: string, headers: Headers, body: InsertCachedGitHubResponse["body"]) {
+    const etag = headers.get("etag");
+    const lastModified = headers.get("last-modified");
+    if (!this.cache || !isCacheable(endpoint) || (!etag && !lastModified)) return;
+
+    try {
+      await this.cache.setCachedResponse({ endpoint, etag, lastModified, body });
+    } catch (error) {
+      console.warn(`Failed to cache GitHub response for ${endpoint}:`, error);
+    }
+  }
+
+  // Returns how long to wait before retrying, or undefined when the failure is not retryable
+  private async retryDelay(response: Response, attempt: number): Promise<number | undefined> {
+    // Retry-After is either a number of seconds or an HTTP date; anything else falls
+    // through to the status-based handling below
+    const retryAfter = response.headers.get("retry-after");
+    if (retryAfter) {
+      const delayMs = /^\d+$/.test(retryAfter.trim())
+        ? parseInt(retryAfter, 10) * 1000
+        : new Date(retryAfter).getTime() - Date.now();
+      if (!isNaN(delayMs)) {
+        return Math.max(delayMs, 0);
+      }
+    }
+
+    if (response.status === 403 || response.status === 429) {
+      if (response.headers.get("x-ratelimit-remaining") === "0") {
+        const reset = parseInt(response.headers.get("x-ratelimit-reset") || "0", 10);
+        return Math.max(reset * 1000 - Date.now(), 0) + 1000;
+      }
+
+      // Secondary rate limits come back as 403 without headers; plain permission errors are final
+      const body = await response.text().catch(() => "");
+      if (response.status === 429 || /rate limit/i.test(body)) {
+        return Math.max(this.backoffDelay(attempt), 60_000);
+      }
+      return undefined;
+    }
+
+    if (response.status >= 500) {
+      return this.backoffDelay(attempt);
+    }
+
+    return undefined;
+  }
+
+  private backoffDelay(attempt: number): number {
+    return 1000 * 2 ** attempt + Math.floor(Math.random() * 250);
+  }
+
+  private async waitForBudget(endpoint: string) {
+    const budget = this.rateLimits.get(resourceForEndpoint(endpoint));
+    if (!budget || budget.remaining > 0) return;
+
+    const waitMs = new Date(budget.resetAt).getTime() - Date.now();
+    if (waitMs <= 0) return;
+    if (waitMs > this.maxWaitMs) {
+      throw new GitHubApiError(
+        `GitHub API rate limit exhausted for "${budget.resource}" until ${budget.resetAt}`,
+        429,
+        endpoint,
+        waitMs,
+      );
+    }
+    await sleep(waitMs);
+  }
+
+  private recordRateLimit(endpoint: string, headers: Headers) {
+    const remaining = headers.get("x-ratelimit-remaining");
+    if (remaining === null) return;
+
+    const resource = headers.get("x-ratelimit-resource") || resourceForEndpoint(endpoint);
+    this.rateLimits.set(resource, {
+      resource,
+      limit: parseInt(headers.get("x-ratelimit-limit") || "0", 10),
+      remaining: parseInt(remaining, 10),
+      used: parseInt(headers.get("x-ratelimit-used") || "0", 10),
+      resetAt: new Date(parseInt(headers.get("x-ratelimit-reset") || "0", 10) * 1000).toISOString(),
+    });
+  }
+}
+
+export const github = new GitHubClient({
+  baseUrl: process.env.GITHUB_API_BASE_URL,
+  token: process.env.GITHUB_TOKEN || process.env.GITHUB_API_TOKEN,
+  cache: storage,
+});
@@ -1,9 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { syncScheduler } from "./scheduler";
+import { indexStoredIssues, seedDefaultSyncQueries } from "./sync";
 
 const app = express();
-app.use(express.json());
+
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody: unknown
+  }
+}
+
+// Keep the raw body around so webhook signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +52,16 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await storage.init();
+  await seedDefaultSyncQueries();
+  await indexStoredIssues();
+
+  // Before listening, so the runs it marks as interrupted can only be left over from a
+  // previous process, never sync requests that reach this one. Interval syncs are off
+  // unless SYNC_INTERVAL_MINUTES is set.
+  const syncIntervalMinutes = parseInt(process.env.SYNC_INTERVAL_MINUTES || '0', 10);
+  await syncScheduler.start(syncIntervalMinutes * 60_000);
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -68,4 +93,19 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Flush storage (e.g. the MemStorage snapshot) before exiting
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, async () => {
+      log(`received ${signal}, shutting down`);
+      server.close();
+      syncScheduler.stop();
+      try {
+        await storage.close();
+      } catch (error) {
+        console.error('Failed to close storage:', error);
+      }
+      process.exit(0);
+    });
+  }
 })();
@@ -0,0 +1,145 @@
+import { github, type GitHubRepo, type GitHubUser } from "./github";
+import { storage } from "./storage";
+import { tokenize } from "./text-index";
+import type { InsertUser, User } from "@shared/schema";
+
+const REPOS_PAGE_SIZE = 100;
+// Bounds the API cost of a profile: one languages request per repository
+const MAX_PROFILE_REPOS = 100;
+// A repository last pushed this long ago counts half as much as one pushed today
+const RECENCY_HALF_LIFE_DAYS = 365;
+const TOP_LANGUAGE_COUNT = 5;
+const MAX_INTEREST_TERMS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LanguageProfile {
+  languageWeights: Record<string, number>;
+  topLanguages: string[];
+}
+
+export async function fetchOwnedRepositories(username: string): Promise<GitHubRepo[]> {
+  const repos: GitHubRepo[] = [];
+
+  for (let page = 1; repos.length < MAX_PROFILE_REPOS; page++) {
+    const batch: GitHubRepo[] = await github.request(
+      `/users/${encodeURIComponent(username)}/repos?type=owner&sort=pushed&per_page=${REPOS_PAGE_SIZE}&page=${page}`
+    );
+    repos.push(...batch.filter(repo => !repo.fork));
+    if (batch.length < REPOS_PAGE_SIZE) break;
+  }
+
+  return repos.slice(0, MAX_PROFILE_REPOS);
+}
+
+export function recencyDecay(pushedAt: string | null | undefined, now = Date.now()): number {
+  if (!pushedAt) return 0.5;
+  const ageDays = Math.max(now - new Date(pushedAt).getTime(), 0) / DAY_MS;
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+// Each repository contributes its byte share per language, scaled by recency, so one
+// huge vendored repository can't drown out everything else the user writes
+export async function buildLanguageProfile(repos: GitHubRepo[]): Promise<LanguageProfile> {
+  const totals: Record<string, number> = {};
+  const now = Date.now();
+
+  for (const repo of repos) {
+    let bytesByLanguage: Record<string, number>;
+    try {
+      bytesByLanguage = await github.request(`/repos/${repo.full_name}/languages`);
+    } catch (error) {
+      console.warn(`Failed to fetch languages for ${repo.full_name}:`, error);
+      bytesByLanguage = repo.language ? { [repo.language]: 1 } : {};
+    }
+
+    const repoBytes = Object.values(bytesByLanguage).reduce((sum, bytes) => sum + bytes, 0);
+    if (repoBytes === 0) continue;
+
+    const decay = recencyDecay(repo.pushed_at || repo.updated_at, now);
+    for (const [language, bytes] of Object.entries(bytesByLanguage)) {
+      totals[language] = (totals[language] || 0) + (bytes / repoBytes) * decay;
+    }
+  }
+
+  const total = Object.values(totals).reduce((sum, weight) => sum + weight, 0);
+  const ranked = Object.entries(totals).sort(([, a], [, b]) => b - a);
+
+  const languageWeights: Record<string, number> = {};
+  for (const [language, weight] of ranked) {
+    languageWeights[language] = Math.round((weight / total) * 10_000) / 10_000;
+  }
+
+  return {
+    languageWeights,
+    topLanguages: ranked.slice(0, TOP_LANGUAGE_COUNT).map(([language]) => language),
+  };
+}
+
+// Names and topics are deliberate labels, so they outweigh free-text descriptions and bios
+export function buildInterestProfile(githubUser: Pick<GitHubUser, 'bio'>, repos: GitHubRepo[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  const add = (text: string | null | undefined, weight: number) => {
+    for (const term of tokenize(text || '')) {
+      totals[term] = (totals[term] || 0) + weight;
+    }
+  };
+
+  add(githubUser.bio, 1);
+
+  const now = Date.now();
+  for (const repo of repos) {
+    const decay = recencyDecay(repo.pushed_at || repo.updated_at, now);
+    add(repo.name, 2 * decay);
+    add(repo.description, decay);
+    add((repo.topics || []).join(' '), 2 * decay);
+  }
+
+  const ranked = Object.entries(totals)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_INTEREST_TERMS);
+  const strongest = ranked[0]?.[1] || 1;
+
+  const interestTerms: Record<string, number> = {};
+  for (const [term, weight] of ranked) {
+    interestTerms[term] = Math.round((weight / strongest) * 1000) / 1000;
+  }
+  return interestTerms;
+}
+
+// Creates or refreshes the stored user, rebuilding their language and interest profiles
+export async function saveGitHubProfile(githubUser: GitHubUser): Promise<User> {
+  const githubRepos = await fetchOwnedRepositories(githubUser.login);
+
+  // Weight languages by bytes written across non-fork repos, favouring recent work
+  const { languageWeights, topLanguages } = await buildLanguageProfile(githubRepos);
+  const interestTerms = buildInterestProfile(githubUser, githubRepos);
+
+  return upsertUser(githubUser, { topLanguages, languageWeights, interestTerms });
+}
+
+// Creates or refreshes the stored user's account details only. Costs no GitHub requests,
+// unlike the profile, which takes one per repository.
+export async function saveGitHubAccount(githubUser: GitHubUser): Promise<User> {
+  return upsertUser(githubUser, {});
+}
+
+async function upsertUser(githubUser: GitHubUser, profile: Pick<InsertUser, "topLanguages" | "languageWeights" | "interestTerms">): Promise<User> {
+  const userData = {
+    githubId: githubUser.id,
+    username: githubUser.login,
+    avatarUrl: githubUser.avatar_url,
+    name: githubUser.name,
+    bio: githubUser.bio,
+    publicRepos: githubUser.public_repos,
+    followers: githubUser.followers,
+    following: githubUser.following,
+    ...profile,
+  };
+
+  const existingUser = await storage.getUserByGithubId(githubUser.id);
+  if (existingUser) {
+    return (await storage.updateUser(existingUser.id, userData))!;
+  }
+  return storage.createUser(userData);
+}
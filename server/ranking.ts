@@ -0,0 +1,176 @@
+import type { Issue, RecommendedIssue, ScoreContribution, User, UserFeedback } from "@shared/schema";
+import { issueIndex } from "./text-index";
+
+const BEGINNER_LABELS = ['good first issue', 'beginner friendly', 'help wanted'];
+const RECENT_ACTIVITY_MS = 7 * 24 * 60 * 60 * 1000;
+// Cosine similarity between short profiles and issue text rarely gets higher than this
+const STRONG_SIMILARITY = 0.25;
+
+export interface RankingContext {
+  user: User;
+  feedback: UserFeedback[];
+  now: number;
+}
+
+export interface SignalResult {
+  // How strongly the signal applies, usually between 0 and 1; negative values penalize
+  value: number;
+  reason?: string;
+}
+
+export interface RankingSignal {
+  name: string;
+  label: string;
+  weight: number;
+  // Called once per ranking with every candidate, before any issue is evaluated
+  prepare?(issues: Issue[], context: RankingContext): void;
+  evaluate(issue: Issue, context: RankingContext): SignalResult;
+}
+
+// Proportional to how much of the user's recent code is in the issue's language, relative
+// to their strongest language; users without a weighted profile fall back to topLanguages
+export const languageSignal: RankingSignal = {
+  name: "language",
+  label: "Matches your languages",
+  weight: 10,
+  evaluate(issue, { user }) {
+    if (!issue.language) return { value: 0 };
+
+    const weights = user.languageWeights || {};
+    const strongest = Math.max(0, ...Object.values(weights));
+    if (strongest === 0) {
+      const matches = !!user.topLanguages?.includes(issue.language);
+      return { value: matches ? 1 : 0, reason: matches ? issue.language : undefined };
+    }
+
+    const share = weights[issue.language] || 0;
+    return {
+      value: share / strongest,
+      reason: share > 0 ? `${issue.language} is ${Math.round(share * 100)}% of your recent code` : undefined,
+    };
+  },
+};
+
+export const beginnerLabelSignal: RankingSignal = {
+  name: "beginnerLabel",
+  label: "Beginner-friendly label",
+  weight: 15,
+  evaluate(issue) {
+    const label = (issue.labels || []).find(label => BEGINNER_LABELS.includes(label.toLowerCase()));
+    return { value: label ? 1 : 0, reason: label };
+  },
+};
+
+export const popularRepositorySignal: RankingSignal = {
+  name: "popularRepository",
+  label: "Active repository",
+  weight: 5,
+  evaluate(issue) {
+    const stars = issue.repositoryStars || 0;
+    return { value: stars > 100 ? 1 : 0, reason: stars > 100 ? `${stars.toLocaleString()} stars` : undefined };
+  },
+};
+
+export const recentActivitySignal: RankingSignal = {
+  name: "recentActivity",
+  label: "Recently updated",
+  weight: 3,
+  evaluate(issue, { now }) {
+    const updatedAt = issue.githubUpdatedAt || issue.updatedAt;
+    const recent = !!updatedAt && new Date(updatedAt).getTime() > now - RECENT_ACTIVITY_MS;
+    return { value: recent ? 1 : 0, reason: recent ? "in the last 7 days" : undefined };
+  },
+};
+
+export const contentSimilaritySignal: RankingSignal = {
+  name: "contentSimilarity",
+  label: "Related to your projects",
+  weight: 12,
+  evaluate(issue, { user }) {
+    const interestTerms = user.interestTerms || {};
+    if (Object.keys(interestTerms).length === 0) return { value: 0 };
+
+    const { score, matchedTerms } = issueIndex.similarity(interestTerms, issue.id);
+    return {
+      value: Math.min(score / STRONG_SIMILARITY, 1),
+      reason: matchedTerms.length > 0 ? `mentions ${matchedTerms.slice(0, 3).join(', ')}` : undefined,
+    };
+  },
+};
+
+// Repositories and languages the user said they aren't interested in sink below everything else they match
+export const notInterestedSignal: RankingSignal = {
+  name: "notInterested",
+  label: "You said you're not interested",
+  weight: -20,
+  evaluate(issue, { feedback }) {
+    const repository = `${issue.repositoryOwner}/${issue.repositoryName}`;
+    const reasons = feedback
+      .filter(item =>
+        (item.action === 'not_interested_repo' && item.target === repository) ||
+        (item.action === 'not_interested_language' && item.target === issue.language)
+      )
+      .map(item => item.target);
+    return { value: reasons.length > 0 ? 1 : 0, reason: reasons.length > 0 ? reasons.join(', ') : undefined };
+  },
+};
+
+export class Ranker {
+  private signals: RankingSignal[];
+
+  constructor(signals: RankingSignal[]) {
+    this.signals = [...signals];
+  }
+
+  register(signal: RankingSignal) {
+    this.signals = [...this.signals.filter(existing => existing.name !== signal.name), signal];
+  }
+
+  setWeight(name: string, weight: number) {
+    this.signals = this.signals.map(signal => signal.name === name ? { ...signal, weight } : signal);
+  }
+
+  getSignals(): Array<Pick<RankingSignal, 'name' | 'label' | 'weight'>> {
+    return this.signals.map(({ name, label, weight }) => ({ name, label, weight }));
+  }
+
+  score(issue: Issue, context: RankingContext): { score: number; breakdown: ScoreContribution[] } {
+    const breakdown = this.signals.map(signal => {
+      const { value, reason } = signal.evaluate(issue, context);
+      return {
+        signal: signal.name,
+        label: signal.label,
+        weight: signal.weight,
+        value,
+        score: signal.weight * value,
+        ...(reason ? { reason } : {}),
+      };
+    });
+
+    return { score: breakdown.reduce((total, contribution) => total + contribution.score, 0), breakdown };
+  }
+
+  // Highest score first; ties keep their incoming order
+  rank(issues: Issue[], user: User, feedback: UserFeedback[] = []): RecommendedIssue[] {
+    const context: RankingContext = { user, feedback, now: Date.now() };
+    for (const signal of this.signals) {
+      signal.prepare?.(issues, context);
+    }
+
+    return issues
+      .map(issue => {
+        const { score, breakdown } = this.score(issue, context);
+        return { ...issue, score, scoreBreakdown: breakdown };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+export const ranker = new Ranker([
+  languageSignal,
+  beginnerLabelSignal,
+  popularRepositorySignal,
+  recentActivitySignal,
+  contentSimilaritySignal,
+  notInterestedSignal,
+]);
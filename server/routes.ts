@@ -1,135 +1,86 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertIssueSchema, insertRepositorySchema, issueFiltersSchema } from "@shared/schema";
+import { insertUserSchema, insertIssueSchema, insertRepositorySchema, insertSyncQuerySchema, insertUserFeedbackSchema, insertBookmarkSchema, contributionTransitionSchema, insertUserPreferencesSchema, insertSavedSearchSchema, issueFiltersSchema, DEFAULT_USER_PREFERENCES, type IssueFilters } from "@shared/schema";
 import { z } from "zod";
+import { github, type GitHubUser } from "./github";
+import { syncScheduler } from "./scheduler";
+import { handleWebhookEvent, verifyWebhookSignature } from "./webhooks";
+import { transitionContribution } from "./contributions";
+import { saveGitHubProfile } from "./profile";
+import { findMatchingIssueIds } from "./saved-searches";
+import { requireAuth, requireSelf, setupAuth } from "./auth";
 
-const GITHUB_API_BASE = "https://api.github.com";
-
-interface GitHubUser {
-  id: number;
-  login: string;
-  avatar_url: string;
-  name: string;
-  bio: string;
-  public_repos: number;
-  followers: number;
-  following: number;
-}
-
-interface GitHubRepo {
-  id: number;
-  name: string;
-  full_name: string;
-  owner: { login: string };
-  description: string;
-  language: string;
-  stargazers_count: number;
-  forks_count: number;
-  open_issues_count: number;
-  private: boolean;
-  created_at: string;
-  updated_at: string;
-}
+// Query strings carry everything as strings; coerce them into IssueFilters
+function parseIssueFilters(reqQuery: Request["query"]): IssueFilters {
+  const query = { ...reqQuery };
 
-interface GitHubIssue {
-  id: number;
-  number: number;
-  title: string;
-  body: string;
-  state: string;
-  labels: Array<{ name: string }>;
-  comments: number;
-  created_at: string;
-  updated_at: string;
-  repository_url: string;
-}
-
-async function fetchFromGitHub(endpoint: string): Promise<any> {
-  const token = process.env.GITHUB_TOKEN || process.env.GITHUB_API_TOKEN;
-  const headers: Record<string, string> = {
-    'Accept': 'application/vnd.github.v3+json',
-    'User-Agent': 'GitHub-Issue-Recommender'
-  };
-  
-  if (token) {
-    headers['Authorization'] = `token ${token}`;
+  // Handle array parameters that come as strings
+  if (query.languages && typeof query.languages === 'string') {
+    query.languages = [query.languages];
   }
-
-  const response = await fetch(`${GITHUB_API_BASE}${endpoint}`, { headers });
-  
-  if (!response.ok) {
-    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  if (query.difficulty && typeof query.difficulty === 'string') {
+    query.difficulty = [query.difficulty];
   }
-  
-  return response.json();
-}
-
-function determineDifficulty(labels: string[]): string {
-  const labelText = labels.join(' ').toLowerCase();
-  
-  if (labelText.includes('good first issue') || labelText.includes('beginner')) {
-    return 'beginner';
+  if (query.excludeLanguages && typeof query.excludeLanguages === 'string') {
+    query.excludeLanguages = [query.excludeLanguages];
+  }
+  if (query.excludeOwners && typeof query.excludeOwners === 'string') {
+    query.excludeOwners = [query.excludeOwners];
   }
-  if (labelText.includes('intermediate') || labelText.includes('medium')) {
-    return 'intermediate';
+  if (query.excludeRepositories && typeof query.excludeRepositories === 'string') {
+    query.excludeRepositories = [query.excludeRepositories];
   }
-  if (labelText.includes('advanced') || labelText.includes('hard') || labelText.includes('expert')) {
-    return 'advanced';
+  if (query.excludeLabels && typeof query.excludeLabels === 'string') {
+    query.excludeLabels = [query.excludeLabels];
   }
-  
-  return 'beginner'; // Default for unlabeled issues
+
+  // Handle numeric parameters - parse but don't assign back to query
+  const page = query.page && typeof query.page === 'string' ? parseInt(query.page, 10) : undefined;
+  const limit = query.limit && typeof query.limit === 'string' ? parseInt(query.limit, 10) : undefined;
+  const minDifficultyConfidence = typeof query.minDifficultyConfidence === 'string'
+    ? parseFloat(query.minDifficultyConfidence)
+    : undefined;
+  const minComments = typeof query.minComments === 'string' ? parseInt(query.minComments, 10) : undefined;
+  const maxComments = typeof query.maxComments === 'string' ? parseInt(query.maxComments, 10) : undefined;
+
+  // Handle boolean parameters
+  const parseBoolean = (value: unknown) => typeof value === 'string' ? value === 'true' : undefined;
+
+  // Handle search parameter
+  const search = query.search && typeof query.search === 'string' ? query.search.trim() : undefined;
+
+  // Create properly typed filters object
+  return issueFiltersSchema.parse({
+    ...query,
+    page,
+    limit,
+    minDifficultyConfidence,
+    minComments,
+    maxComments,
+    search,
+    includeClosed: parseBoolean(query.includeClosed),
+    includeAssigned: parseBoolean(query.includeAssigned),
+  });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Get or create user by GitHub username
-  app.post("/api/users/github/:username", async (req, res) => {
+  // Sessions and /api/auth routes come first so every route below can see the signed-in user
+  setupAuth(app);
+
+  // Refresh the signed-in user's profile from GitHub
+  app.post("/api/users/github/:username", requireAuth, async (req, res) => {
     try {
       const { username } = req.params;
-      
-      // Check if user exists in storage
-      const existingUser = await storage.getUserByGithubId(0); // We'll use username lookup
-      
-      // Fetch from GitHub API
-      const githubUser: GitHubUser = await fetchFromGitHub(`/users/${username}`);
-      const githubRepos: GitHubRepo[] = await fetchFromGitHub(`/users/${username}/repos?sort=updated&per_page=10`);
-      
-      // Extract top languages
-      const languageCounts: Record<string, number> = {};
-      githubRepos.forEach(repo => {
-        if (repo.language) {
-          languageCounts[repo.language] = (languageCounts[repo.language] || 0) + 1;
-        }
-      });
-      
-      const topLanguages = Object.entries(languageCounts)
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 5)
-        .map(([lang]) => lang);
-
-      const userData = {
-        githubId: githubUser.id,
-        username: githubUser.login,
-        avatarUrl: githubUser.avatar_url,
-        name: githubUser.name,
-        bio: githubUser.bio,
-        publicRepos: githubUser.public_repos,
-        followers: githubUser.followers,
-        following: githubUser.following,
-        topLanguages,
-      };
 
-      // Check if user exists by GitHub ID
-      const existingUserByGithubId = await storage.getUserByGithubId(githubUser.id);
-      
-      let user;
-      if (existingUserByGithubId) {
-        user = await storage.updateUser(existingUserByGithubId.id, userData);
-      } else {
-        user = await storage.createUser(userData);
+      const currentUser = await storage.getUser(req.session.userId!);
+      if (!currentUser || currentUser.username.toLowerCase() !== username.toLowerCase()) {
+        return res.status(403).json({ message: "Forbidden" });
       }
 
+      const githubUser: GitHubUser = await github.request(`/users/${username}`);
+      const user = await saveGitHubProfile(githubUser);
+
       res.json(user);
     } catch (error) {
       console.error('Error fetching GitHub user:', error);
@@ -140,9 +91,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user profile
-  app.get("/api/users/:id", async (req, res) => {
+  app.get("/api/users/:userId", requireSelf, async (req, res) => {
     try {
-      const user = await storage.getUser(req.params.id);
+      const user = await storage.getUser(req.params.userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
@@ -152,133 +103,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Sync GitHub issues for recommendations
-  app.post("/api/sync-issues", async (req, res) => {
+  // Start a background sync, or join the one already running. /api/sync-issues is the
+  // original name; it used to wait for the whole sync, which outlasts request time limits.
+  app.post(["/api/sync-jobs", "/api/sync-issues"], requireAuth, async (req, res) => {
     try {
-      // Search for beginner-friendly issues across popular repositories
-      const searchQueries = [
-        'label:"good first issue" state:open',
-        'label:"beginner friendly" state:open',
-        'label:"help wanted" state:open language:javascript',
-        'label:"help wanted" state:open language:python',
-        'label:"help wanted" state:open language:typescript',
-        'label:"good first issue" state:open language:go',
-      ];
-
-      let allIssues: any[] = [];
-
-      for (const query of searchQueries) {
-        try {
-          const searchResult = await fetchFromGitHub(`/search/issues?q=${encodeURIComponent(query)}&sort=updated&per_page=20`);
-          allIssues = allIssues.concat(searchResult.items || []);
-        } catch (error) {
-          console.warn(`Failed to fetch issues for query: ${query}`, error);
-        }
-      }
+      const job = await syncScheduler.enqueue('manual');
+      const run = await storage.getSyncRun(job.run.id);
+      res.status(202).json(run || job.run);
+    } catch (error) {
+      console.error('Error starting sync job:', error);
+      res.status(500).json({ message: "Failed to start sync job" });
+    }
+  });
 
-      // Remove duplicates and process issues
-      const uniqueIssues = allIssues.filter((issue, index, self) => 
-        index === self.findIndex(i => i.id === issue.id)
-      );
-
-      const processedIssues = [];
-
-      for (const githubIssue of uniqueIssues) {
-        try {
-          // Extract repository info from URL
-          const repoInfo = githubIssue.repository_url.split('/').slice(-2);
-          const [owner, repoName] = repoInfo;
-
-          // Fetch repository details
-          let repoDetails;
-          try {
-            repoDetails = await fetchFromGitHub(`/repos/${owner}/${repoName}`);
-          } catch (error) {
-            console.warn(`Failed to fetch repo details for ${owner}/${repoName}`);
-            continue;
-          }
-
-          const labels = githubIssue.labels?.map((label: any) => label.name) || [];
-          
-          const issueData = {
-            githubId: githubIssue.id,
-            number: githubIssue.number,
-            title: githubIssue.title,
-            body: githubIssue.body || '',
-            state: githubIssue.state,
-            labels,
-            language: repoDetails.language,
-            repositoryName: repoName,
-            repositoryOwner: owner,
-            repositoryStars: repoDetails.stargazers_count,
-            repositoryForks: repoDetails.forks_count,
-            comments: githubIssue.comments,
-            difficulty: determineDifficulty(labels),
-            isRecommended: labels.some((label: string) => 
-              ['good first issue', 'beginner friendly', 'help wanted'].includes(label.toLowerCase())
-            ),
-          };
-
-          // Check if issue exists
-          const existingIssue = await storage.getIssueByGithubId(githubIssue.id);
-          
-          if (existingIssue) {
-            await storage.updateIssue(existingIssue.id, issueData);
-          } else {
-            await storage.createIssue(issueData);
-          }
-          
-          processedIssues.push(issueData);
-        } catch (error) {
-          console.warn(`Failed to process issue ${githubIssue.id}:`, error);
-        }
+  // History of sync runs, newest first
+  app.get("/api/sync-jobs", async (req, res) => {
+    try {
+      const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : 20;
+      const runs = await storage.getSyncRuns(Math.min(Math.max(limit || 20, 1), 100));
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sync jobs" });
+    }
+  });
+
+  // Progress, counts, errors and duration of a single sync run
+  app.get("/api/sync-jobs/:id", async (req, res) => {
+    try {
+      const run = await storage.getSyncRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Sync job not found" });
       }
+      res.json(run);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sync job" });
+    }
+  });
 
-      res.json({ 
-        message: `Successfully synced ${processedIssues.length} issues`,
-        count: processedIssues.length 
-      });
+  // Search queries run by each sync
+  app.get("/api/sync-queries", async (req, res) => {
+    try {
+      res.json(await storage.getSyncQueries());
     } catch (error) {
-      console.error('Error syncing issues:', error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : 'Failed to sync issues' 
-      });
+      res.status(500).json({ message: "Failed to fetch sync queries" });
     }
   });
 
-  // Get recommended issues for a user
-  app.get("/api/users/:userId/recommended-issues", async (req, res) => {
+  app.post("/api/sync-queries", requireAuth, async (req, res) => {
     try {
-      const { userId } = req.params;
-      
-      // Transform query parameters for proper parsing
-      const query = { ...req.query };
-      
-      // Handle array parameters that come as strings
-      if (query.languages && typeof query.languages === 'string') {
-        query.languages = [query.languages];
+      const syncQuery = await storage.createSyncQuery(insertSyncQuerySchema.parse(req.body));
+      res.status(201).json(syncQuery);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sync query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create sync query" });
+    }
+  });
+
+  app.patch("/api/sync-queries/:id", requireAuth, async (req, res) => {
+    try {
+      const syncQuery = await storage.updateSyncQuery(req.params.id, insertSyncQuerySchema.partial().parse(req.body));
+      if (!syncQuery) {
+        return res.status(404).json({ message: "Sync query not found" });
       }
-      if (query.difficulty && typeof query.difficulty === 'string') {
-        query.difficulty = [query.difficulty];
+      res.json(syncQuery);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sync query", errors: error.errors });
       }
+      res.status(500).json({ message: "Failed to update sync query" });
+    }
+  });
+
+  app.delete("/api/sync-queries/:id", requireAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteSyncQuery(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Sync query not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete sync query" });
+    }
+  });
+
+  // Get recommended issues for a user, with sidebar facet counts over them
+  app.get("/api/users/:userId/recommended-issues", requireSelf, async (req, res) => {
+    try {
+      const { userId } = req.params;
       
-      // Handle numeric parameters - parse but don't assign back to query
-      const page = query.page && typeof query.page === 'string' ? parseInt(query.page, 10) : undefined;
-      const limit = query.limit && typeof query.limit === 'string' ? parseInt(query.limit, 10) : undefined;
-      
-      // Handle search parameter
-      const search = query.search && typeof query.search === 'string' ? query.search.trim() : undefined;
-      
-      // Create properly typed filters object
-      const filters = issueFiltersSchema.parse({
-        ...query,
-        page,
-        limit,
-        search
-      });
+      const filters = parseIssueFilters(req.query);
       
       const result = await storage.getRecommendedIssuesForUser(userId, filters);
-      res.json(result);
+      const facets = await storage.getIssueFacets(filters, userId);
+      res.json({ ...result, facets });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid filters", errors: error.errors });
@@ -287,37 +206,244 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all issues with filters
-  app.get("/api/issues", async (req, res) => {
+  // List the feedback a user has given on recommendations
+  app.get("/api/users/:userId/feedback", requireSelf, async (req, res) => {
     try {
-      // Transform query parameters for proper parsing
-      const query = { ...req.query };
-      
-      // Handle array parameters that come as strings
-      if (query.languages && typeof query.languages === 'string') {
-        query.languages = [query.languages];
+      const feedback = await storage.getUserFeedback(req.params.userId);
+      res.json(feedback);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch feedback" });
+    }
+  });
+
+  // Record a dismissed issue or a repository/language the user isn't interested in
+  app.post("/api/users/:userId/feedback", requireSelf, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      if (query.difficulty && typeof query.difficulty === 'string') {
-        query.difficulty = [query.difficulty];
+
+      const feedback = await storage.createUserFeedback(insertUserFeedbackSchema.parse({ ...req.body, userId }));
+      res.status(201).json(feedback);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid feedback", errors: error.errors });
       }
-      
-      // Handle numeric parameters - parse but don't assign back to query
-      const page = query.page && typeof query.page === 'string' ? parseInt(query.page, 10) : undefined;
-      const limit = query.limit && typeof query.limit === 'string' ? parseInt(query.limit, 10) : undefined;
-      
-      // Handle search parameter
-      const search = query.search && typeof query.search === 'string' ? query.search.trim() : undefined;
-      
-      // Create properly typed filters object
-      const filters = issueFiltersSchema.parse({
-        ...query,
-        page,
-        limit,
-        search
+      res.status(500).json({ message: "Failed to record feedback" });
+    }
+  });
+
+  // Undo feedback
+  app.delete("/api/users/:userId/feedback/:id", requireSelf, async (req, res) => {
+    try {
+      const deleted = await storage.deleteUserFeedback(req.params.userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Feedback not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete feedback" });
+    }
+  });
+
+  // Get a user's bookmarked issues, most recently saved first
+  app.get("/api/users/:userId/bookmarks", requireSelf, async (req, res) => {
+    try {
+      const issues = await storage.getBookmarkedIssues(req.params.userId);
+      res.json({ issues, total: issues.length });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bookmarks" });
+    }
+  });
+
+  // Bookmark an issue
+  app.post("/api/users/:userId/bookmarks", requireSelf, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { issueId } = insertBookmarkSchema.parse({ ...req.body, userId });
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const issue = await storage.getIssue(issueId);
+      if (!issue) {
+        return res.status(404).json({ message: "Issue not found" });
+      }
+
+      const bookmark = await storage.createBookmark({ userId, issueId });
+      res.status(201).json(bookmark);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bookmark", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create bookmark" });
+    }
+  });
+
+  // Remove a bookmark
+  app.delete("/api/users/:userId/bookmarks/:issueId", requireSelf, async (req, res) => {
+    try {
+      const deleted = await storage.deleteBookmark(req.params.userId, req.params.issueId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Bookmark not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete bookmark" });
+    }
+  });
+
+  // Get the issues a user is tracking, most recently changed first
+  app.get("/api/users/:userId/contributions", requireSelf, async (req, res) => {
+    try {
+      const contributions = await storage.getContributions(req.params.userId);
+      res.json(contributions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch contributions" });
+    }
+  });
+
+  // Move an issue to a new contribution status, starting to track it if needed
+  app.post("/api/users/:userId/contributions", requireSelf, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { issueId, status, note } = contributionTransitionSchema.parse(req.body);
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const issue = await storage.getIssue(issueId);
+      if (!issue) {
+        return res.status(404).json({ message: "Issue not found" });
+      }
+
+      const contribution = await transitionContribution(userId, issueId, status, { note });
+      res.json(contribution);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contribution update", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update contribution" });
+    }
+  });
+
+  // Get a user's preferences, falling back to the defaults until they save some
+  app.get("/api/users/:userId/preferences", requireSelf, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const preferences = await storage.getUserPreferences(userId);
+      res.json(preferences || { userId, ...DEFAULT_USER_PREFERENCES, updatedAt: null });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch preferences" });
+    }
+  });
+
+  // Replace a user's preferences; omitted fields go back to their defaults
+  app.put("/api/users/:userId/preferences", requireSelf, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const preferences = insertUserPreferencesSchema.parse({ ...req.body, userId });
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const saved = await storage.saveUserPreferences({ ...DEFAULT_USER_PREFERENCES, ...preferences });
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid preferences", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save preferences" });
+    }
+  });
+
+  // Get a user's saved searches
+  app.get("/api/users/:userId/saved-searches", requireSelf, async (req, res) => {
+    try {
+      const savedSearches = await storage.getSavedSearches(req.params.userId);
+      res.json(savedSearches);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  // Save a filter combination; issues matching it today don't trigger notifications
+  app.post("/api/users/:userId/saved-searches", requireSelf, async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { name, filters } = insertSavedSearchSchema.parse({ ...req.body, userId });
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const savedSearch = await storage.createSavedSearch({
+        userId,
+        name,
+        filters,
+        seenIssueIds: await findMatchingIssueIds(filters),
+        lastCheckedAt: new Date(),
+      });
+      res.status(201).json(savedSearch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid saved search", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create saved search" });
+    }
+  });
+
+  // Delete a saved search along with its notifications
+  app.delete("/api/users/:userId/saved-searches/:id", requireSelf, async (req, res) => {
+    try {
+      const deleted = await storage.deleteSavedSearch(req.params.userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
+  // Get a user's most recent notifications
+  app.get("/api/users/:userId/notifications", requireSelf, async (req, res) => {
+    try {
+      const notifications = await storage.getNotifications(req.params.userId, 50);
+      res.json({
+        notifications,
+        unread: notifications.filter(notification => !notification.readAt).length,
       });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // Mark all of a user's notifications as read
+  app.post("/api/users/:userId/notifications/read", requireSelf, async (req, res) => {
+    try {
+      const updated = await storage.markNotificationsRead(req.params.userId);
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
+  // Get all issues with filters, with sidebar facet counts over the results
+  app.get("/api/issues", async (req, res) => {
+    try {
+      const filters = parseIssueFilters(req.query);
       
       const result = await storage.getIssues(filters);
-      res.json(result);
+      const facets = await storage.getIssueFacets(filters);
+      res.json({ ...result, facets });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid filters", errors: error.errors });
@@ -326,6 +452,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get a repository with its open recommended issues
+  app.get("/api/repositories/:owner/:name", async (req, res) => {
+    try {
+      const repository = await storage.getRepositoryByFullName(req.params.owner, req.params.name);
+      if (!repository) {
+        return res.status(404).json({ message: "Repository not found" });
+      }
+
+      const repositoryIssues = await storage.getIssuesByRepositoryId(repository.id);
+      const issues = repositoryIssues
+        .filter(issue => issue.state === 'open' && issue.isRecommended)
+        .sort((a, b) => new Date(b.updatedAt!).getTime() - new Date(a.updatedAt!).getTime());
+
+      res.json({ repository, issues });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch repository" });
+    }
+  });
+
   // Get available languages and stats
   app.get("/api/stats", async (req, res) => {
     try {
@@ -362,6 +507,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Live issue updates from GitHub webhooks (issues, issue_comment and label events)
+  app.post("/api/webhooks/github", async (req, res) => {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+    if (!secret) {
+      return res.status(503).json({ message: "Webhooks are not configured" });
+    }
+
+    if (!Buffer.isBuffer(req.rawBody) || !verifyWebhookSignature(req.rawBody, req.header("x-hub-signature-256"), secret)) {
+      return res.status(401).json({ message: "Invalid webhook signature" });
+    }
+
+    try {
+      const result = await handleWebhookEvent(req.header("x-github-event"), req.body);
+      res.json(result);
+    } catch (error) {
+      console.error('Error handling GitHub webhook:', error);
+      res.status(500).json({ message: "Failed to handle webhook" });
+    }
+  });
+
+  // Current GitHub API rate limit budgets, as of the last response seen per resource
+  app.get("/api/github/rate-limit", (req, res) => {
+    res.json({ resources: github.getRateLimits() });
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,32 @@
+import { storage } from "./storage";
+import type { Notification, SavedSearch, SavedSearchFilters } from "@shared/schema";
+
+// Only the most recently updated matches are compared, bounding the work per search
+const MATCH_LIMIT = 100;
+// Keeps seenIssueIds bounded; the oldest entries are forgotten first
+const MAX_SEEN_ISSUES = 1000;
+
+export async function findMatchingIssueIds(filters: SavedSearchFilters): Promise<string[]> {
+  const { issues } = await storage.getIssues({ ...filters, sortBy: "recent", page: 1, limit: MATCH_LIMIT });
+  return issues.map(issue => issue.id);
+}
+
+// Notifies the owner about issues the search hasn't matched before. Issues that stop
+// matching and match again later stay seen, so nobody hears about the same issue twice.
+export async function evaluateSavedSearch(savedSearch: SavedSearch): Promise<Notification | undefined> {
+  const seenIssueIds = savedSearch.seenIssueIds || [];
+  const seen = new Set(seenIssueIds);
+  const newIssueIds = (await findMatchingIssueIds(savedSearch.filters || {})).filter(id => !seen.has(id));
+
+  await storage.updateSavedSearch(savedSearch.id, {
+    seenIssueIds: [...seenIssueIds, ...newIssueIds].slice(-MAX_SEEN_ISSUES),
+    lastCheckedAt: new Date(),
+  });
+
+  if (newIssueIds.length === 0) return undefined;
+  return storage.createNotification({
+    userId: savedSearch.userId,
+    savedSearchId: savedSearch.id,
+    issueIds: newIssueIds,
+  });
+}
@@ -0,0 +1,119 @@
+import { storage } from "./storage";
+import { syncIssues } from "./sync";
+import { log } from "./vite";
+import type { SyncProgress, SyncRun } from "@shared/schema";
+
+// Progress is persisted at most this often so large syncs don't hammer storage
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+export interface SyncJob {
+  run: SyncRun;
+  // Resolves with the final run record once the sync has finished
+  done: Promise<SyncRun>;
+}
+
+export class SyncScheduler {
+  private timer?: NodeJS.Timeout;
+  private current?: Promise<SyncJob>;
+
+  // Marks runs left behind by a previous process as failed, then starts interval syncs if enabled
+  async start(intervalMs?: number): Promise<void> {
+    const recentRuns = await storage.getSyncRuns(100);
+    for (const run of recentRuns) {
+      if (run.status === 'queued' || run.status === 'running') {
+        await storage.updateSyncRun(run.id, {
+          status: 'failed',
+          finishedAt: new Date(),
+          errors: [...(run.errors || []), 'Interrupted by server restart'],
+        });
+      }
+    }
+
+    if (intervalMs && intervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.enqueue('scheduled').catch(error => console.error('Failed to start scheduled sync:', error));
+      }, intervalMs);
+      log(`syncing issues every ${Math.round(intervalMs / 60_000)} minutes`, "sync");
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Only one sync runs at a time; requests made while one is in flight join it
+  enqueue(trigger: string): Promise<SyncJob> {
+    if (!this.current) {
+      this.current = this.startJob(trigger).catch(error => {
+        this.current = undefined;
+        throw error;
+      });
+    }
+    return this.current;
+  }
+
+  private async startJob(trigger: string): Promise<SyncJob> {
+    const run = await storage.createSyncRun({ trigger, status: 'queued' });
+    const done = this.execute(run).finally(() => {
+      this.current = undefined;
+    });
+    return { run, done };
+  }
+
+  // Never rejects: nothing awaits done for a background sync, so a failed status write is
+  // logged instead of surfacing as an unhandled rejection
+  private async execute(run: SyncRun): Promise<SyncRun> {
+    const startedAt = new Date();
+    try {
+      await storage.updateSyncRun(run.id, { status: 'running', startedAt });
+    } catch (error) {
+      console.warn(`Failed to mark sync ${run.id} as running:`, error);
+    }
+    log(`sync ${run.id} started (${run.trigger})`, "sync");
+
+    // Chain progress writes so they can't land after the final update
+    let writes = Promise.resolve();
+    let lastWriteAt = 0;
+    let latestProgress: SyncProgress | undefined;
+
+    let update: Partial<SyncRun>;
+    try {
+      const report = await syncIssues((progress, report) => {
+        latestProgress = progress;
+        if (Date.now() - lastWriteAt < PROGRESS_WRITE_INTERVAL_MS) return;
+        lastWriteAt = Date.now();
+        writes = writes
+          .then(() => storage.updateSyncRun(run.id, { progress, counts: report.counts, errors: report.errors }))
+          .then(() => undefined, error => console.warn(`Failed to record progress for sync ${run.id}:`, error));
+      });
+      update = { status: 'succeeded', counts: report.counts, errors: report.errors };
+    } catch (error) {
+      console.error(`Sync ${run.id} failed:`, error);
+      update = { status: 'failed', errors: [error instanceof Error ? error.message : String(error)] };
+    }
+
+    await writes;
+    const finishedAt = new Date();
+    const final: Partial<SyncRun> = {
+      ...update,
+      progress: latestProgress,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    };
+    let finished: SyncRun | undefined;
+    try {
+      finished = await storage.updateSyncRun(run.id, final);
+    } catch (error) {
+      console.error(`Failed to record the result of sync ${run.id}:`, error);
+    }
+    log(`sync ${run.id} ${update.status} in ${final.durationMs}ms`, "sync");
+    // The run record can be missing if the write failed; report what we know instead
+    return finished || { ...run, ...final };
+  }
+}
+
+export const syncScheduler = new SyncScheduler();
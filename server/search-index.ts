@@ -0,0 +1,258 @@
+import type { HighlightRange, Issue, IssueFilters, IssueHighlights, SearchMatch } from "@shared/schema";
+import { ageCutoff, dayRange, parseSearchQuery, type SearchTerm } from "@shared/search-query";
+import { termFrequencies, tokenize } from "./text-index";
+
+export type SearchField = "title" | "labels" | "repository" | "body";
+
+// A title hit says far more about an issue than a passing mention in a long body
+export const SEARCH_FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  labels: 2,
+  repository: 1.5,
+  body: 1,
+};
+
+// A misspelled match counts for less than the word the user actually typed
+export const TYPO_PENALTY = 0.5;
+// Term frequency saturation, as in BM25: the tenth mention adds little over the second
+const SATURATION = 1.2;
+const MAX_HIGHLIGHTS_PER_FIELD = 50;
+
+// Short words have too many one-letter neighbours to correct safely
+export function allowedEdits(token: string): number {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions), giving up
+// early once it exceeds the limit
+export function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], twoRowsBack[j - 2] + 1);
+      }
+      rowMinimum = Math.min(rowMinimum, row[j]);
+    }
+    if (rowMinimum > limit) return limit + 1;
+  }
+  return row[b.length];
+}
+
+export function isTypoOf(candidate: string, token: string): boolean {
+  const limit = allowedEdits(token);
+  return limit > 0 && editDistance(candidate, token, limit) <= limit;
+}
+
+export type TextTerm = Extract<SearchTerm, { kind: "text" }>;
+
+function positiveTextTerms(terms: SearchTerm[]): TextTerm[] {
+  return terms.filter((term): term is TextTerm => term.kind === "text" && !term.negated);
+}
+
+// The words to rank by: every positive free-text term, split the way issues are indexed
+export function searchTokens(terms: SearchTerm[]): string[] {
+  return Array.from(new Set(positiveTextTerms(terms).flatMap(term => tokenize(term.value))));
+}
+
+// Tokens a text term may match with typos. Quoted phrases only ever match literally, and
+// excluding a word shouldn't also exclude everything spelled like it.
+export function fuzzyTokens(term: TextTerm): string[] {
+  return term.phrase || term.negated ? [] : tokenize(term.value);
+}
+
+// Query tokens with the indexed terms each one stands for
+export type ExpandedQuery = Map<string, Array<{ term: string; exact: boolean }>>;
+
+function fieldText(issue: Issue, field: SearchField): string {
+  switch (field) {
+    case "title": return issue.title;
+    case "labels": return (issue.labels || []).join(" ");
+    case "repository": return `${issue.repositoryOwner} ${issue.repositoryName}`;
+    case "body": return issue.body || "";
+  }
+}
+
+interface IndexedIssue {
+  version: number;
+  fields: Record<SearchField, Record<string, number>>;
+}
+
+// Inverted index over issue fields. Like TextIndex, documents are reindexed lazily
+// whenever an issue's updatedAt changes.
+export class SearchIndex {
+  private documents = new Map<string, IndexedIssue>();
+  private postings = new Map<string, Set<string>>();
+
+  update(issues: Issue[]) {
+    for (const issue of issues) {
+      const version = new Date(issue.updatedAt || 0).getTime();
+      if (this.documents.get(issue.id)?.version === version) continue;
+
+      this.remove(issue.id);
+      const fields = {} as Record<SearchField, Record<string, number>>;
+      for (const field of Object.keys(SEARCH_FIELD_BOOSTS) as SearchField[]) {
+        fields[field] = termFrequencies(tokenize(fieldText(issue, field)));
+        for (const term of Object.keys(fields[field])) {
+          if (!this.postings.has(term)) this.postings.set(term, new Set());
+          this.postings.get(term)!.add(issue.id);
+        }
+      }
+      this.documents.set(issue.id, { version, fields });
+    }
+  }
+
+  remove(id: string) {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    for (const terms of Object.values(existing.fields)) {
+      for (const term of Object.keys(terms)) {
+        const ids = this.postings.get(term);
+        ids?.delete(id);
+        if (ids && ids.size === 0) this.postings.delete(term);
+      }
+    }
+    this.documents.delete(id);
+  }
+
+  // The indexed terms each token stands for: itself when indexed, otherwise the indexed
+  // words it is likely a misspelling of
+  expand(tokens: string[]): ExpandedQuery {
+    const vocabulary = Array.from(this.postings.keys());
+    const query: ExpandedQuery = new Map();
+    for (const token of tokens) {
+      query.set(token, this.postings.has(token)
+        ? [{ term: token, exact: true }]
+        : vocabulary.filter(term => isTypoOf(term, token)).map(term => ({ term, exact: false })));
+    }
+    return query;
+  }
+
+  // Whether every token appears in the issue, allowing for typos
+  matches(id: string, query: ExpandedQuery): boolean {
+    return query.size > 0 && Array.from(query.values()).every(expansions =>
+      expansions.some(({ term }) => this.postings.get(term)?.has(id))
+    );
+  }
+
+  idf(term: string): number {
+    return Math.log(1 + this.documents.size / (1 + (this.postings.get(term)?.size || 0)));
+  }
+
+  // Sum over query tokens of the best field-boosted, saturated TF-IDF of any expansion
+  score(id: string, query: ExpandedQuery): number {
+    const document = this.documents.get(id);
+    if (!document) return 0;
+
+    let score = 0;
+    for (const expansions of Array.from(query.values())) {
+      let best = 0;
+      for (const { term, exact } of expansions) {
+        let termScore = 0;
+        for (const field of Object.keys(SEARCH_FIELD_BOOSTS) as SearchField[]) {
+          const frequency = document.fields[field][term] || 0;
+          termScore += SEARCH_FIELD_BOOSTS[field] * (frequency / (frequency + SATURATION));
+        }
+        best = Math.max(best, termScore * this.idf(term) * (exact ? 1 : TYPO_PENALTY));
+      }
+      score += best;
+    }
+    return Math.round(score * 1000) / 1000;
+  }
+}
+
+export const searchIndex = new SearchIndex();
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const merged: HighlightRange[] = [];
+  for (const range of ranges.sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged.slice(0, MAX_HIGHLIGHTS_PER_FIELD);
+}
+
+// Character ranges in text matching the search: literal occurrences of each term, and
+// whole words whose tokens equal or are typos of a bare word's tokens
+function highlightText(text: string, literals: string[], tokens: string[]): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+  const lowerText = text.toLowerCase();
+
+  for (const literal of literals) {
+    for (let start = lowerText.indexOf(literal); start !== -1; start = lowerText.indexOf(literal, start + literal.length)) {
+      ranges.push({ start, end: start + literal.length });
+    }
+  }
+
+  if (tokens.length > 0) {
+    for (const word of Array.from(text.matchAll(/[A-Za-z0-9+#]+/g))) {
+      const matched = tokenize(word[0]).some(candidate =>
+        tokens.some(token => candidate === token || isTypoOf(candidate, token))
+      );
+      if (matched) {
+        ranges.push({ start: word.index!, end: word.index! + word[0].length });
+      }
+    }
+  }
+
+  return mergeRanges(ranges);
+}
+
+// Offsets for the client to mark, or undefined when the search has no free text
+export function highlightIssue(issue: Issue, terms: SearchTerm[]): IssueHighlights | undefined {
+  const textTerms = positiveTextTerms(terms);
+  if (textTerms.length === 0) return undefined;
+
+  const literals = textTerms.map(term => term.value.toLowerCase());
+  const tokens = Array.from(new Set(textTerms.flatMap(fuzzyTokens)));
+  return {
+    title: highlightText(issue.title, literals, tokens),
+    body: highlightText(issue.body || "", literals, tokens),
+    labels: (issue.labels || []).filter(label => highlightText(label, literals, tokens).length > 0),
+  };
+}
+
+// The parsed search box query, plus the date and comment filters expressed as the
+// qualifiers they correspond to. Route validation has already rejected syntax errors.
+export function parseSearchTerms(filters: IssueFilters, now = new Date()): SearchTerm[] {
+  const terms = filters.search?.trim() ? parseSearchQuery(filters.search, now) : [];
+
+  for (const kind of ["created", "updated"] as const) {
+    const within = filters[`${kind}Within`];
+    const from = filters[`${kind}From`];
+    const to = filters[`${kind}To`];
+    if (within) {
+      terms.push({ kind, range: { after: ageCutoff(within, now) }, negated: false });
+    }
+    if (from || to) {
+      terms.push({ kind, range: dayRange(from, to), negated: false });
+    }
+  }
+
+  if (filters.minComments !== undefined || filters.maxComments !== undefined) {
+    terms.push({ kind: "comments", range: { min: filters.minComments, max: filters.maxComments }, negated: false });
+  }
+
+  return terms;
+}
+
+// Annotates a result with its relevance score and the ranges for the client to mark
+export function withSearchMatch<T extends Issue>(issue: T, terms: SearchTerm[], relevance?: number): T & SearchMatch {
+  return { ...issue, relevance, highlights: highlightIssue(issue, terms) };
+}
@@ -1,7 +1,21 @@
-import { type User, type InsertUser, type Repository, type InsertRepository, type Issue, type InsertIssue, type IssueFilters } from "@shared/schema";
+import { DEFAULT_USER_PREFERENCES, users, repositories, issues, githubResponseCache, syncRuns, syncQueries, syncCursors, userFeedback, bookmarks, contributions, userPreferences, savedSearches, notifications, type User, type InsertUser, type Repository, type InsertRepository, type Issue, type InsertIssue, type IssueFilters, type SearchResultIssue, type IssueFacets, type CachedGitHubResponse, type InsertCachedGitHubResponse, type SyncRun, type InsertSyncRun, type SyncCursor, type SyncQuery, type InsertSyncQuery, type RecommendedIssue, type UserFeedback, type InsertUserFeedback, type Bookmark, type InsertBookmark, type BookmarkedIssue, type Contribution, type InsertContribution, type ContributionWithIssue, type UserPreferences, type InsertUserPreferences, type SavedSearch, type InsertSavedSearch, type Notification, type InsertNotification, type NotificationWithSearch } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { getTableColumns } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import fs from "fs/promises";
+import path from "path";
+import { createDatabase } from "./db";
+import { DatabaseStorage } from "./db-storage";
+import { ranker } from "./ranking";
+import type { SearchTerm } from "@shared/search-query";
+import { FACET_LIMIT, countFacet, emptyFacets, repositorySizeOf } from "./facets";
+import { fuzzyTokens, parseSearchTerms, searchIndex, searchTokens, withSearchMatch, type ExpandedQuery } from "./search-index";
 
 export interface IStorage {
+  // Lifecycle methods
+  init(): Promise<void>;
+  close(): Promise<void>;
+
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByGithubId(githubId: number): Promise<User | undefined>;
@@ -11,27 +25,243 @@ export interface IStorage {
   // Repository methods
   getRepository(id: string): Promise<Repository | undefined>;
   getRepositoryByGithubId(githubId: number): Promise<Repository | undefined>;
+  getRepositoryByFullName(owner: string, name: string): Promise<Repository | undefined>;
   createRepository(repository: InsertRepository): Promise<Repository>;
   updateRepository(id: string, repository: Partial<InsertRepository>): Promise<Repository | undefined>;
 
   // Issue methods
   getIssue(id: string): Promise<Issue | undefined>;
   getIssueByGithubId(githubId: number): Promise<Issue | undefined>;
-  getIssues(filters: IssueFilters): Promise<{ issues: Issue[]; total: number }>;
+  getIssues(filters: IssueFilters): Promise<{ issues: SearchResultIssue[]; total: number }>;
+  getIssuesByRepositoryId(repositoryId: string): Promise<Issue[]>;
+  getAllIssues(): Promise<Issue[]>;
+  // Open issues to re-check, bookmarked ones first, then least recently checked
+  getIssuesToReconcile(limit: number): Promise<Issue[]>;
   createIssue(issue: InsertIssue): Promise<Issue>;
   updateIssue(id: string, issue: Partial<InsertIssue>): Promise<Issue | undefined>;
-  getRecommendedIssuesForUser(userId: string, filters: IssueFilters): Promise<{ issues: Issue[]; total: number }>;
+  getRecommendedIssuesForUser(userId: string, filters: IssueFilters): Promise<{ issues: RecommendedIssue[]; total: number }>;
+  // Over getIssues' results, or the user's recommendations when a user is given
+  getIssueFacets(filters: IssueFilters, userId?: string): Promise<IssueFacets>;
+
+  // GitHub response cache methods
+  getCachedResponse(endpoint: string): Promise<CachedGitHubResponse | undefined>;
+  setCachedResponse(response: InsertCachedGitHubResponse): Promise<CachedGitHubResponse>;
+
+  // Sync run methods
+  getSyncRun(id: string): Promise<SyncRun | undefined>;
+  getSyncRuns(limit: number): Promise<SyncRun[]>;
+  createSyncRun(syncRun: InsertSyncRun): Promise<SyncRun>;
+  updateSyncRun(id: string, syncRun: Partial<InsertSyncRun>): Promise<SyncRun | undefined>;
+
+  // Sync query methods
+  getSyncQueries(): Promise<SyncQuery[]>;
+  getSyncQuery(id: string): Promise<SyncQuery | undefined>;
+  createSyncQuery(syncQuery: InsertSyncQuery): Promise<SyncQuery>;
+  updateSyncQuery(id: string, syncQuery: Partial<InsertSyncQuery>): Promise<SyncQuery | undefined>;
+  deleteSyncQuery(id: string): Promise<boolean>;
+
+  // Sync cursor methods
+  getSyncCursor(query: string): Promise<SyncCursor | undefined>;
+  setSyncCursor(query: string, lastSyncedAt: Date): Promise<SyncCursor>;
+
+  // Feedback methods
+  getUserFeedback(userId: string): Promise<UserFeedback[]>;
+  createUserFeedback(feedback: InsertUserFeedback): Promise<UserFeedback>;
+  deleteUserFeedback(userId: string, id: string): Promise<boolean>;
+
+  // Bookmark methods
+  getBookmarkedIssues(userId: string): Promise<BookmarkedIssue[]>;
+  createBookmark(bookmark: InsertBookmark): Promise<Bookmark>;
+  deleteBookmark(userId: string, issueId: string): Promise<boolean>;
+
+  // Contribution methods
+  getContributions(userId: string): Promise<ContributionWithIssue[]>;
+  getContribution(userId: string, issueId: string): Promise<Contribution | undefined>;
+  // Contributions of every user that haven't been merged or abandoned yet
+  getOpenContributions(): Promise<Contribution[]>;
+  createContribution(contribution: InsertContribution): Promise<Contribution>;
+  updateContribution(id: string, contribution: Partial<InsertContribution>): Promise<Contribution | undefined>;
+
+  // Preference methods
+  getUserPreferences(userId: string): Promise<UserPreferences | undefined>;
+  // Replaces the user's preferences, creating them on first save
+  saveUserPreferences(preferences: InsertUserPreferences): Promise<UserPreferences>;
+
+  // Saved search methods
+  getSavedSearches(userId: string): Promise<SavedSearch[]>;
+  // Every user's saved searches, for evaluation after a sync
+  getAllSavedSearches(): Promise<SavedSearch[]>;
+  createSavedSearch(savedSearch: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: string, savedSearch: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined>;
+  // Also removes the search's notifications
+  deleteSavedSearch(userId: string, id: string): Promise<boolean>;
+
+  // Notification methods
+  getNotifications(userId: string, limit: number): Promise<NotificationWithSearch[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  // Returns how many notifications were unread
+  markNotificationsRead(userId: string): Promise<number>;
+}
+
+// GitHub's update time where we have it, falling back to when we last stored the issue
+function issueUpdatedTime(issue: Issue): number {
+  return new Date(issue.githubUpdatedAt || issue.updatedAt!).getTime();
+}
+
+export interface MemStorageOptions {
+  // JSON file the maps are persisted to; persistence is disabled when unset
+  snapshotPath?: string;
+  snapshotIntervalMs?: number;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+// The table each snapshot collection holds rows of
+const SNAPSHOT_TABLES: Record<string, PgTable> = {
+  users,
+  repositories,
+  issues,
+  githubResponses: githubResponseCache,
+  syncRuns,
+  syncQueries,
+  syncCursors,
+  userFeedback,
+  bookmarks,
+  contributions,
+  userPreferences,
+  savedSearches,
+  notifications,
+};
+
+// Timestamps are stored as ISO strings; only the table's timestamp columns are turned back
+// into Dates, so strings inside JSON columns such as cached GitHub bodies are left alone
+function reviveSnapshotDates(row: Record<string, unknown>, table: PgTable): Record<string, unknown> {
+  const revived = { ...row };
+  for (const [field, column] of Object.entries(getTableColumns(table))) {
+    if (column.dataType === "date" && typeof revived[field] === "string") {
+      revived[field] = new Date(revived[field] as string);
+    }
+  }
+  return revived;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private repositories: Map<string, Repository>;
   private issues: Map<string, Issue>;
+  private githubResponses: Map<string, CachedGitHubResponse>;
+  private syncRuns: Map<string, SyncRun>;
+  private syncQueries: Map<string, SyncQuery>;
+  private syncCursors: Map<string, SyncCursor>;
+  private userFeedback: Map<string, UserFeedback>;
+  private bookmarks: Map<string, Bookmark>;
+  private contributions: Map<string, Contribution>;
+  private userPreferences: Map<string, UserPreferences>;
+  private savedSearches: Map<string, SavedSearch>;
+  private notifications: Map<string, Notification>;
+  private options: MemStorageOptions;
+  private snapshotTimer?: NodeJS.Timeout;
+  private dirty = false;
 
-  constructor() {
+  constructor(options: MemStorageOptions = {}) {
     this.users = new Map();
     this.repositories = new Map();
     this.issues = new Map();
+    this.githubResponses = new Map();
+    this.syncRuns = new Map();
+    this.syncQueries = new Map();
+    this.syncCursors = new Map();
+    this.userFeedback = new Map();
+    this.bookmarks = new Map();
+    this.contributions = new Map();
+    this.userPreferences = new Map();
+    this.savedSearches = new Map();
+    this.notifications = new Map();
+    this.options = options;
+  }
+
+  // Lifecycle methods
+  async init(): Promise<void> {
+    if (!this.options.snapshotPath) return;
+
+    await this.loadSnapshot();
+    this.snapshotTimer = setInterval(() => {
+      this.saveSnapshot().catch(error => console.error('Failed to write storage snapshot:', error));
+    }, this.options.snapshotIntervalMs || 60_000);
+    this.snapshotTimer.unref();
+  }
+
+  async close(): Promise<void> {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = undefined;
+    }
+    await this.saveSnapshot();
+  }
+
+  private snapshotCollections(): Record<string, Map<string, unknown>> {
+    return {
+      users: this.users,
+      repositories: this.repositories,
+      issues: this.issues,
+      githubResponses: this.githubResponses,
+      syncRuns: this.syncRuns,
+      syncQueries: this.syncQueries,
+      syncCursors: this.syncCursors,
+      userFeedback: this.userFeedback,
+      bookmarks: this.bookmarks,
+      contributions: this.contributions,
+      userPreferences: this.userPreferences,
+      savedSearches: this.savedSearches,
+      notifications: this.notifications,
+    };
+  }
+
+  async loadSnapshot(): Promise<void> {
+    const snapshotPath = this.options.snapshotPath;
+    if (!snapshotPath) return;
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(snapshotPath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const snapshot = JSON.parse(raw);
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported storage snapshot version ${snapshot.version} in ${snapshotPath}`);
+    }
+
+    for (const [name, collection] of Object.entries(this.snapshotCollections())) {
+      collection.clear();
+      for (const [key, value] of snapshot[name] || []) {
+        collection.set(key, reviveSnapshotDates(value, SNAPSHOT_TABLES[name]));
+      }
+    }
+  }
+
+  async saveSnapshot(): Promise<void> {
+    const snapshotPath = this.options.snapshotPath;
+    if (!snapshotPath || !this.dirty) return;
+
+    const snapshot: Record<string, unknown> = { version: SNAPSHOT_VERSION, savedAt: new Date() };
+    for (const [name, collection] of Object.entries(this.snapshotCollections())) {
+      snapshot[name] = Array.from(collection.entries());
+    }
+    this.dirty = false;
+
+    // Write to a temp file first so a crash mid-write never leaves a truncated snapshot
+    const tempPath = `${snapshotPath}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(snapshot));
+      await fs.rename(tempPath, snapshotPath);
+    } catch (error) {
+      this.dirty = true;
+      throw error;
+    }
   }
 
   // User methods
@@ -55,9 +285,12 @@ export class MemStorage implements IStorage {
       followers: insertUser.followers || 0,
       following: insertUser.following || 0,
       topLanguages: Array.isArray(insertUser.topLanguages) ? [...insertUser.topLanguages] : [],
+      languageWeights: { ...insertUser.languageWeights },
+      interestTerms: { ...insertUser.interestTerms },
       createdAt: new Date()
     };
     this.users.set(id, user);
+    this.dirty = true;
     return user;
   }
 
@@ -68,9 +301,14 @@ export class MemStorage implements IStorage {
     const updatedUser = { 
       ...user, 
       ...updateData,
-      topLanguages: Array.isArray(updateData.topLanguages) ? [...updateData.topLanguages] : user.topLanguages
+      topLanguages: Array.isArray(updateData.topLanguages) ? [...updateData.topLanguages] : user.topLanguages,
+      languageWeights: updateData.languageWeights
+        ? { ...updateData.languageWeights }
+        : user.languageWeights,
+      interestTerms: updateData.interestTerms ? { ...updateData.interestTerms } : user.interestTerms,
     };
     this.users.set(id, updatedUser);
+    this.dirty = true;
     return updatedUser;
   }
 
@@ -83,6 +321,11 @@ export class MemStorage implements IStorage {
     return Array.from(this.repositories.values()).find(repo => repo.githubId === githubId);
   }
 
+  async getRepositoryByFullName(owner: string, name: string): Promise<Repository | undefined> {
+    const fullName = `${owner}/${name}`.toLowerCase();
+    return Array.from(this.repositories.values()).find(repo => repo.fullName.toLowerCase() === fullName);
+  }
+
   async createRepository(insertRepository: InsertRepository): Promise<Repository> {
     const id = randomUUID();
     const repository: Repository = { 
@@ -94,10 +337,15 @@ export class MemStorage implements IStorage {
       forks: insertRepository.forks || 0,
       openIssues: insertRepository.openIssues || 0,
       isPrivate: insertRepository.isPrivate || false,
+      topics: Array.isArray(insertRepository.topics) ? [...insertRepository.topics] : [],
+      license: insertRepository.license || null,
+      defaultBranch: insertRepository.defaultBranch || null,
+      pushedAt: insertRepository.pushedAt || null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
     this.repositories.set(id, repository);
+    this.dirty = true;
     return repository;
   }
 
@@ -105,8 +353,14 @@ export class MemStorage implements IStorage {
     const repository = this.repositories.get(id);
     if (!repository) return undefined;
 
-    const updatedRepository = { ...repository, ...updateData, updatedAt: new Date() };
+    const updatedRepository = { 
+      ...repository, 
+      ...updateData, 
+      topics: Array.isArray(updateData.topics) ? [...updateData.topics] : repository.topics,
+      updatedAt: new Date() 
+    };
     this.repositories.set(id, updatedRepository);
+    this.dirty = true;
     return updatedRepository;
   }
 
@@ -119,56 +373,18 @@ export class MemStorage implements IStorage {
     return Array.from(this.issues.values()).find(issue => issue.githubId === githubId);
   }
 
-  async getIssues(filters: IssueFilters): Promise<{ issues: Issue[]; total: number }> {
-    let allIssues = Array.from(this.issues.values());
-
-    // Apply search filter
-    if (filters.search && filters.search.trim()) {
-      const searchTerm = filters.search.toLowerCase().trim();
-      allIssues = allIssues.filter(issue => {
-        const titleMatch = issue.title.toLowerCase().includes(searchTerm);
-        const bodyMatch = issue.body?.toLowerCase().includes(searchTerm) || false;
-        const repoMatch = issue.repositoryName.toLowerCase().includes(searchTerm);
-        const ownerMatch = issue.repositoryOwner.toLowerCase().includes(searchTerm);
-        const languageMatch = issue.language?.toLowerCase().includes(searchTerm) || false;
-        const labelsMatch = (issue.labels || []).some(label => 
-          label.toLowerCase().includes(searchTerm)
-        );
-        return titleMatch || bodyMatch || repoMatch || ownerMatch || languageMatch || labelsMatch;
-      });
-    }
-
-    // Apply language filters
-    if (filters.languages && filters.languages.length > 0) {
-      allIssues = allIssues.filter(issue => 
-        issue.language && filters.languages!.includes(issue.language)
-      );
-    }
-
-    // Apply difficulty filters
-    if (filters.difficulty && filters.difficulty.length > 0) {
-      allIssues = allIssues.filter(issue => 
-        issue.difficulty && filters.difficulty!.includes(issue.difficulty)
-      );
-    }
-
-    // Apply repository size filters
-    if (filters.repositorySize && filters.repositorySize !== "any") {
-      allIssues = allIssues.filter(issue => {
-        const stars = issue.repositoryStars || 0;
-        switch (filters.repositorySize) {
-          case "small": return stars < 100;
-          case "medium": return stars >= 100 && stars < 1000;
-          case "large": return stars >= 1000;
-          default: return true;
-        }
-      });
-    }
+  async getIssues(filters: IssueFilters): Promise<{ issues: SearchResultIssue[]; total: number }> {
+    const terms = parseSearchTerms(filters);
+    const allIssues = this.filterIssues(Array.from(this.issues.values()), filters, terms);
+    const relevance = this.scoreRelevance(allIssues, terms);
 
-    // Sort issues
+    // Sort issues; relevance falls back to most recent when there is no text to rank by
     const sortBy = filters.sortBy || "recent";
     allIssues.sort((a, b) => {
       switch (sortBy) {
+        case "relevance":
+          return (relevance?.get(b.id) || 0) - (relevance?.get(a.id) || 0) ||
+            issueUpdatedTime(b) - issueUpdatedTime(a);
         case "stars":
           return (b.repositoryStars || 0) - (a.repositoryStars || 0);
         case "comments":
@@ -177,7 +393,7 @@ export class MemStorage implements IStorage {
           return (b.isRecommended ? 1 : 0) - (a.isRecommended ? 1 : 0);
         case "recent":
         default:
-          return new Date(b.updatedAt!).getTime() - new Date(a.updatedAt!).getTime();
+          return issueUpdatedTime(b) - issueUpdatedTime(a);
       }
     });
 
@@ -185,11 +401,20 @@ export class MemStorage implements IStorage {
     const page = filters.page || 1;
     const limit = filters.limit || 10;
     const start = (page - 1) * limit;
-    const issues = allIssues.slice(start, start + limit);
+    const issues = allIssues.slice(start, start + limit)
+      .map(issue => withSearchMatch(issue, terms, relevance?.get(issue.id)));
 
     return { issues, total };
   }
 
+  async getIssuesByRepositoryId(repositoryId: string): Promise<Issue[]> {
+    return Array.from(this.issues.values()).filter(issue => issue.repositoryId === repositoryId);
+  }
+
+  async getAllIssues(): Promise<Issue[]> {
+    return Array.from(this.issues.values());
+  }
+
   async createIssue(insertIssue: InsertIssue): Promise<Issue> {
     const id = randomUUID();
     const issue: Issue = { 
@@ -198,15 +423,24 @@ export class MemStorage implements IStorage {
       body: insertIssue.body || null,
       language: insertIssue.language || null,
       labels: Array.isArray(insertIssue.labels) ? [...insertIssue.labels] : [],
+      assignees: Array.isArray(insertIssue.assignees) ? [...insertIssue.assignees] : [],
+      locked: insertIssue.locked || false,
+      closedAt: insertIssue.closedAt || null,
+      repositoryId: insertIssue.repositoryId || null,
       repositoryStars: insertIssue.repositoryStars || 0,
       repositoryForks: insertIssue.repositoryForks || 0,
       comments: insertIssue.comments || 0,
       difficulty: insertIssue.difficulty || null,
+      difficultyConfidence: insertIssue.difficultyConfidence ?? null,
       isRecommended: insertIssue.isRecommended || false,
+      githubCreatedAt: insertIssue.githubCreatedAt || null,
+      githubUpdatedAt: insertIssue.githubUpdatedAt || null,
+      lastCheckedAt: insertIssue.lastCheckedAt || null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
     this.issues.set(id, issue);
+    this.dirty = true;
     return issue;
   }
 
@@ -218,55 +452,172 @@ export class MemStorage implements IStorage {
       ...issue, 
       ...updateData, 
       labels: Array.isArray(updateData.labels) ? [...updateData.labels] : issue.labels,
+      assignees: Array.isArray(updateData.assignees) ? [...updateData.assignees] : issue.assignees,
       updatedAt: new Date() 
     };
     this.issues.set(id, updatedIssue);
+    this.dirty = true;
     return updatedIssue;
   }
 
-  async getRecommendedIssuesForUser(userId: string, filters: IssueFilters): Promise<{ issues: Issue[]; total: number }> {
+  async getRecommendedIssuesForUser(userId: string, filters: IssueFilters): Promise<{ issues: RecommendedIssue[]; total: number }> {
     const user = await this.getUser(userId);
     if (!user) return { issues: [], total: 0 };
 
-    let allIssues = Array.from(this.issues.values());
+    const feedback = await this.getUserFeedback(userId);
+    const terms = parseSearchTerms(filters);
+    const allIssues = this.recommendableIssues(user, feedback, filters, terms);
+
+    // Mark recommended issues
+    const recommendedIssues = allIssues.map(issue => ({
+      ...issue,
+      isRecommended: user.topLanguages?.includes(issue.language || '') || 
+                    (issue.labels || []).some(label => 
+                      ['good first issue', 'beginner friendly', 'help wanted'].includes(label.toLowerCase())
+                    ) || false
+    }));
+
+    // Order by the weighted signals in ranking.ts, keeping each issue's breakdown. A
+    // relevance sort puts the best text matches first and keeps that order among ties.
+    const relevance = this.scoreRelevance(allIssues, terms);
+    const rankedIssues = ranker.rank(recommendedIssues, user, feedback);
+    if (filters.sortBy === "relevance" && relevance) {
+      rankedIssues.sort((a, b) => (relevance.get(b.id) || 0) - (relevance.get(a.id) || 0));
+    }
+
+    // Apply pagination
+    const total = rankedIssues.length;
+    const page = filters.page || 1;
+    const limit = filters.limit || 10;
+    const start = (page - 1) * limit;
+    const issues = rankedIssues.slice(start, start + limit)
+      .map(issue => withSearchMatch(issue, terms, relevance?.get(issue.id)));
 
-    // Apply search filter first
-    if (filters.search && filters.search.trim()) {
-      const searchTerm = filters.search.toLowerCase().trim();
+    return { issues, total };
+  }
+
+  async getIssueFacets(filters: IssueFilters, userId?: string): Promise<IssueFacets> {
+    const terms = parseSearchTerms(filters);
+    let matching = (facetFilters: IssueFilters) =>
+      this.filterIssues(Array.from(this.issues.values()), facetFilters, terms);
+
+    if (userId) {
+      const user = await this.getUser(userId);
+      if (!user) return emptyFacets();
+      const feedback = await this.getUserFeedback(userId);
+      matching = facetFilters => this.recommendableIssues(user, feedback, facetFilters, terms);
+    }
+
+    const results = matching(filters);
+    return {
+      languages: countFacet(matching({ ...filters, languages: undefined }), issue => [issue.language]),
+      difficulties: countFacet(matching({ ...filters, difficulty: undefined }), issue => [issue.difficulty]),
+      repositorySizes: countFacet(matching({ ...filters, repositorySize: undefined }), issue => [repositorySizeOf(issue.repositoryStars)]),
+      labels: countFacet(results, issue => issue.labels || [], FACET_LIMIT),
+      owners: countFacet(results, issue => [issue.repositoryOwner], FACET_LIMIT),
+    };
+  }
+
+  async getIssuesToReconcile(limit: number): Promise<Issue[]> {
+    const bookmarkedIds = new Set(Array.from(this.bookmarks.values()).map(bookmark => bookmark.issueId));
+
+    return Array.from(this.issues.values())
+      .filter(issue => issue.state === 'open')
+      .sort((a, b) => 
+        (bookmarkedIds.has(b.id) ? 1 : 0) - (bookmarkedIds.has(a.id) ? 1 : 0) ||
+        (a.lastCheckedAt ? new Date(a.lastCheckedAt).getTime() : 0) - 
+        (b.lastCheckedAt ? new Date(b.lastCheckedAt).getTime() : 0)
+      )
+      .slice(0, limit);
+  }
+
+  // The filtered issues minus the user's dismissals, limited to their languages unless searching
+  private recommendableIssues(user: User, feedback: UserFeedback[], filters: IssueFilters, terms: SearchTerm[]): Issue[] {
+    const dismissedIds = new Set(feedback.filter(item => item.action === 'dismiss').map(item => item.target));
+    let allIssues = this.filterIssues(Array.from(this.issues.values()), filters, terms)
+      .filter(issue => !dismissedIds.has(issue.id));
+
+    // Only prioritize user languages when not searching
+    if (!filters.search?.trim() && user.topLanguages && user.topLanguages.length > 0) {
       allIssues = allIssues.filter(issue => {
-        const titleMatch = issue.title.toLowerCase().includes(searchTerm);
-        const bodyMatch = issue.body?.toLowerCase().includes(searchTerm) || false;
-        const repoMatch = issue.repositoryName.toLowerCase().includes(searchTerm);
-        const ownerMatch = issue.repositoryOwner.toLowerCase().includes(searchTerm);
-        const languageMatch = issue.language?.toLowerCase().includes(searchTerm) || false;
-        const labelsMatch = (issue.labels || []).some(label => 
-          label.toLowerCase().includes(searchTerm)
-        );
-        return titleMatch || bodyMatch || repoMatch || ownerMatch || languageMatch || labelsMatch;
+        if (!issue.language) return true;
+        return user.topLanguages!.includes(issue.language);
       });
-    } else {
-      // Only prioritize user languages when not searching
-      if (user.topLanguages && user.topLanguages.length > 0) {
-        allIssues = allIssues.filter(issue => {
-          if (!issue.language) return true;
-          return user.topLanguages!.includes(issue.language);
-        });
-      }
     }
 
-    // Apply other filters
+    return allIssues;
+  }
+
+  private filterIssues(allIssues: Issue[], filters: IssueFilters, terms: SearchTerm[]): Issue[] {
+    // Hide issues nobody can pick up unless asked for; locked issues count as closed
+    if (!filters.includeClosed) {
+      allIssues = allIssues.filter(issue => issue.state === 'open' && !issue.locked);
+    }
+
+    if (!filters.includeAssigned) {
+      allIssues = allIssues.filter(issue => !issue.assignees || issue.assignees.length === 0);
+    }
+
+    // Apply the search query; every term must match
+    if (terms.length > 0) {
+      searchIndex.update(Array.from(this.issues.values()));
+      const fuzzyQueries = new Map(terms.map(term =>
+        [term, term.kind === "text" ? searchIndex.expand(fuzzyTokens(term)) : undefined]
+      ));
+      allIssues = allIssues.filter(issue =>
+        terms.every(term => this.matchesSearchTerm(issue, term, fuzzyQueries.get(term)) !== term.negated)
+      );
+    }
+
+    // Apply language filters
     if (filters.languages && filters.languages.length > 0) {
       allIssues = allIssues.filter(issue => 
         issue.language && filters.languages!.includes(issue.language)
       );
     }
 
+    if (filters.excludeLanguages && filters.excludeLanguages.length > 0) {
+      allIssues = allIssues.filter(issue =>
+        !issue.language || !filters.excludeLanguages!.includes(issue.language)
+      );
+    }
+
+    // GitHub owner names are case-insensitive
+    if (filters.excludeOwners && filters.excludeOwners.length > 0) {
+      const excludedOwners = new Set(filters.excludeOwners.map(owner => owner.toLowerCase()));
+      allIssues = allIssues.filter(issue => !excludedOwners.has(issue.repositoryOwner.toLowerCase()));
+    }
+
+    // Like repo: in the search box, a bare name hides the repository under any owner
+    if (filters.excludeRepositories && filters.excludeRepositories.length > 0) {
+      const excludedRepositories = new Set(filters.excludeRepositories.map(repository => repository.toLowerCase()));
+      allIssues = allIssues.filter(issue =>
+        !excludedRepositories.has(`${issue.repositoryOwner}/${issue.repositoryName}`.toLowerCase()) &&
+        !excludedRepositories.has(issue.repositoryName.toLowerCase())
+      );
+    }
+
+    if (filters.excludeLabels && filters.excludeLabels.length > 0) {
+      const excludedLabels = new Set(filters.excludeLabels.map(label => label.toLowerCase()));
+      allIssues = allIssues.filter(issue =>
+        !(issue.labels || []).some(label => excludedLabels.has(label.toLowerCase()))
+      );
+    }
+
+    // Apply difficulty filters
     if (filters.difficulty && filters.difficulty.length > 0) {
       allIssues = allIssues.filter(issue => 
         issue.difficulty && filters.difficulty!.includes(issue.difficulty)
       );
     }
 
+    if (filters.minDifficultyConfidence) {
+      allIssues = allIssues.filter(issue =>
+        (issue.difficultyConfidence || 0) >= filters.minDifficultyConfidence!
+      );
+    }
+
+    // Apply repository size filters
     if (filters.repositorySize && filters.repositorySize !== "any") {
       allIssues = allIssues.filter(issue => {
         const stars = issue.repositoryStars || 0;
@@ -279,59 +630,407 @@ export class MemStorage implements IStorage {
       });
     }
 
-    // Mark recommended issues
-    const recommendedIssues = allIssues.map(issue => ({
-      ...issue,
-      isRecommended: user.topLanguages?.includes(issue.language || '') || 
-                    (issue.labels || []).some(label => 
-                      ['good first issue', 'beginner friendly', 'help wanted'].includes(label.toLowerCase())
-                    ) || false
-    }));
+    return allIssues;
+  }
 
-    // Sort by recommendation score or search relevance
-    recommendedIssues.sort((a, b) => {
-      const scoreA = this.calculateRecommendationScore(a, user);
-      const scoreB = this.calculateRecommendationScore(b, user);
-      return scoreB - scoreA;
-    });
+  // Text terms match as a substring of any field, or word by word allowing for typos
+  private matchesSearchTerm(issue: Issue, term: SearchTerm, fuzzyQuery?: ExpandedQuery): boolean {
+    const equalsIgnoringCase = (value: string | null | undefined, expected: string) =>
+      value?.toLowerCase() === expected.toLowerCase();
 
-    // Apply pagination
-    const total = recommendedIssues.length;
-    const page = filters.page || 1;
-    const limit = filters.limit || 10;
-    const start = (page - 1) * limit;
-    const issues = recommendedIssues.slice(start, start + limit);
+    switch (term.kind) {
+      case "text": {
+        const searchTerm = term.value.toLowerCase();
+        return [issue.title, issue.body, issue.repositoryName, issue.repositoryOwner, issue.language, ...(issue.labels || [])]
+          .some(field => field?.toLowerCase().includes(searchTerm)) ||
+          (fuzzyQuery !== undefined && searchIndex.matches(issue.id, fuzzyQuery));
+      }
+      case "lang":
+        return equalsIgnoringCase(issue.language, term.value);
+      case "label":
+        return (issue.labels || []).some(label => equalsIgnoringCase(label, term.value));
+      case "org":
+        return equalsIgnoringCase(issue.repositoryOwner, term.value);
+      case "repo":
+        // "owner/name" names one repository; a bare name matches it under any owner
+        return term.value.includes("/")
+          ? equalsIgnoringCase(`${issue.repositoryOwner}/${issue.repositoryName}`, term.value)
+          : equalsIgnoringCase(issue.repositoryName, term.value);
+      case "stars":
+      case "comments": {
+        const value = (term.kind === "stars" ? issue.repositoryStars : issue.comments) || 0;
+        return (term.range.min === undefined || value >= term.range.min) &&
+          (term.range.max === undefined || value <= term.range.max);
+      }
+      case "created":
+      case "updated": {
+        // Issues synced without GitHub's timestamp can't be placed in a window; the local
+        // updatedAt only says when we stored them
+        const githubTime = term.kind === "created" ? issue.githubCreatedAt : issue.githubUpdatedAt;
+        if (!githubTime) return false;
+        const time = new Date(githubTime).getTime();
+        return (!term.range.after || time >= term.range.after.getTime()) &&
+          (!term.range.before || time < term.range.before.getTime());
+      }
+    }
+  }
 
-    return { issues, total };
+  // Relevance of each filtered issue to the free text in the search, if there is any
+  private scoreRelevance(issues: Issue[], terms: SearchTerm[]): Map<string, number> | undefined {
+    const tokens = searchTokens(terms);
+    if (tokens.length === 0) return undefined;
+
+    searchIndex.update(Array.from(this.issues.values()));
+    const query = searchIndex.expand(tokens);
+    return new Map(issues.map(issue => [issue.id, searchIndex.score(issue.id, query)]));
   }
 
-  private calculateRecommendationScore(issue: Issue, user: User): number {
-    let score = 0;
+  // GitHub response cache methods
+  async getCachedResponse(endpoint: string): Promise<CachedGitHubResponse | undefined> {
+    return this.githubResponses.get(endpoint);
+  }
 
-    // Language match
-    if (issue.language && user.topLanguages?.includes(issue.language)) {
-      score += 10;
-    }
+  async setCachedResponse(insertResponse: InsertCachedGitHubResponse): Promise<CachedGitHubResponse> {
+    const response: CachedGitHubResponse = {
+      ...insertResponse,
+      etag: insertResponse.etag || null,
+      lastModified: insertResponse.lastModified || null,
+      fetchedAt: new Date()
+    };
+    this.githubResponses.set(response.endpoint, response);
+    this.dirty = true;
+    return response;
+  }
 
-    // Beginner-friendly labels
-    if ((issue.labels || []).some(label => 
-      ['good first issue', 'beginner friendly', 'help wanted'].includes(label.toLowerCase())
-    )) {
-      score += 15;
-    }
+  // Sync run methods
+  async getSyncRun(id: string): Promise<SyncRun | undefined> {
+    return this.syncRuns.get(id);
+  }
 
-    // Repository activity (stars/forks indicate active project)
-    if (issue.repositoryStars && issue.repositoryStars > 100) {
-      score += 5;
-    }
+  async getSyncRuns(limit: number): Promise<SyncRun[]> {
+    return Array.from(this.syncRuns.values())
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .slice(0, limit);
+  }
+
+  async createSyncRun(insertSyncRun: InsertSyncRun): Promise<SyncRun> {
+    const id = randomUUID();
+    const syncRun: SyncRun = {
+      ...insertSyncRun,
+      id,
+      progress: insertSyncRun.progress || null,
+      counts: insertSyncRun.counts ? { ...insertSyncRun.counts } : {},
+      errors: Array.isArray(insertSyncRun.errors) ? [...insertSyncRun.errors] : [],
+      startedAt: insertSyncRun.startedAt || null,
+      finishedAt: insertSyncRun.finishedAt || null,
+      durationMs: insertSyncRun.durationMs ?? null,
+      createdAt: new Date()
+    };
+    this.syncRuns.set(id, syncRun);
+    this.dirty = true;
+    return syncRun;
+  }
+
+  async updateSyncRun(id: string, updateData: Partial<InsertSyncRun>): Promise<SyncRun | undefined> {
+    const syncRun = this.syncRuns.get(id);
+    if (!syncRun) return undefined;
+
+    const updatedSyncRun = {
+      ...syncRun,
+      ...updateData,
+      errors: Array.isArray(updateData.errors) ? [...updateData.errors] : syncRun.errors
+    };
+    this.syncRuns.set(id, updatedSyncRun);
+    this.dirty = true;
+    return updatedSyncRun;
+  }
+
+  // Sync query methods
+  async getSyncQueries(): Promise<SyncQuery[]> {
+    return Array.from(this.syncQueries.values()).sort((a, b) => 
+      (b.priority || 0) - (a.priority || 0) || 
+      new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime()
+    );
+  }
+
+  async getSyncQuery(id: string): Promise<SyncQuery | undefined> {
+    return this.syncQueries.get(id);
+  }
+
+  async createSyncQuery(insertSyncQuery: InsertSyncQuery): Promise<SyncQuery> {
+    const id = randomUUID();
+    const syncQuery: SyncQuery = {
+      ...insertSyncQuery,
+      id,
+      enabled: insertSyncQuery.enabled ?? true,
+      maxPages: insertSyncQuery.maxPages || 3,
+      priority: insertSyncQuery.priority || 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.syncQueries.set(id, syncQuery);
+    this.dirty = true;
+    return syncQuery;
+  }
+
+  async updateSyncQuery(id: string, updateData: Partial<InsertSyncQuery>): Promise<SyncQuery | undefined> {
+    const syncQuery = this.syncQueries.get(id);
+    if (!syncQuery) return undefined;
+
+    const updatedSyncQuery = { ...syncQuery, ...updateData, updatedAt: new Date() };
+    this.syncQueries.set(id, updatedSyncQuery);
+    this.dirty = true;
+    return updatedSyncQuery;
+  }
+
+  async deleteSyncQuery(id: string): Promise<boolean> {
+    const deleted = this.syncQueries.delete(id);
+    if (deleted) this.dirty = true;
+    return deleted;
+  }
+
+  // Sync cursor methods
+  async getSyncCursor(query: string): Promise<SyncCursor | undefined> {
+    return this.syncCursors.get(query);
+  }
+
+  async setSyncCursor(query: string, lastSyncedAt: Date): Promise<SyncCursor> {
+    const cursor: SyncCursor = { query, lastSyncedAt, updatedAt: new Date() };
+    this.syncCursors.set(query, cursor);
+    this.dirty = true;
+    return cursor;
+  }
 
-    // Recent activity
-    if (issue.updatedAt && new Date(issue.updatedAt).getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000) {
-      score += 3;
+  // Feedback methods
+  async getUserFeedback(userId: string): Promise<UserFeedback[]> {
+    return Array.from(this.userFeedback.values())
+      .filter(feedback => feedback.userId === userId)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  // Repeating the same feedback returns the existing record
+  async createUserFeedback(insertFeedback: InsertUserFeedback): Promise<UserFeedback> {
+    const existing = Array.from(this.userFeedback.values()).find(feedback =>
+      feedback.userId === insertFeedback.userId &&
+      feedback.action === insertFeedback.action &&
+      feedback.target === insertFeedback.target
+    );
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const feedback: UserFeedback = { ...insertFeedback, id, createdAt: new Date() };
+    this.userFeedback.set(id, feedback);
+    this.dirty = true;
+    return feedback;
+  }
+
+  async deleteUserFeedback(userId: string, id: string): Promise<boolean> {
+    if (this.userFeedback.get(id)?.userId !== userId) return false;
+    this.userFeedback.delete(id);
+    this.dirty = true;
+    return true;
+  }
+
+  // Bookmark methods
+  async getBookmarkedIssues(userId: string): Promise<BookmarkedIssue[]> {
+    return Array.from(this.bookmarks.values())
+      .filter(bookmark => bookmark.userId === userId && this.issues.has(bookmark.issueId))
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .map(bookmark => ({ ...this.issues.get(bookmark.issueId)!, bookmarkedAt: bookmark.createdAt }));
+  }
+
+  // Bookmarking an issue twice returns the existing bookmark
+  async createBookmark(insertBookmark: InsertBookmark): Promise<Bookmark> {
+    const existing = Array.from(this.bookmarks.values()).find(bookmark =>
+      bookmark.userId === insertBookmark.userId && bookmark.issueId === insertBookmark.issueId
+    );
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const bookmark: Bookmark = { ...insertBookmark, id, createdAt: new Date() };
+    this.bookmarks.set(id, bookmark);
+    this.dirty = true;
+    return bookmark;
+  }
+
+  async deleteBookmark(userId: string, issueId: string): Promise<boolean> {
+    const bookmark = Array.from(this.bookmarks.values()).find(bookmark =>
+      bookmark.userId === userId && bookmark.issueId === issueId
+    );
+    if (!bookmark) return false;
+    this.bookmarks.delete(bookmark.id);
+    this.dirty = true;
+    return true;
+  }
+
+  // Contribution methods
+  async getContributions(userId: string): Promise<ContributionWithIssue[]> {
+    return Array.from(this.contributions.values())
+      .filter(contribution => contribution.userId === userId && this.issues.has(contribution.issueId))
+      .sort((a, b) => new Date(b.updatedAt!).getTime() - new Date(a.updatedAt!).getTime())
+      .map(contribution => ({ ...contribution, issue: this.issues.get(contribution.issueId)! }));
+  }
+
+  async getContribution(userId: string, issueId: string): Promise<Contribution | undefined> {
+    return Array.from(this.contributions.values()).find(contribution =>
+      contribution.userId === userId && contribution.issueId === issueId
+    );
+  }
+
+  async getOpenContributions(): Promise<Contribution[]> {
+    return Array.from(this.contributions.values())
+      .filter(contribution => contribution.status !== 'merged' && contribution.status !== 'abandoned');
+  }
+
+  async createContribution(insertContribution: InsertContribution): Promise<Contribution> {
+    const id = randomUUID();
+    const contribution: Contribution = {
+      ...insertContribution,
+      id,
+      history: Array.isArray(insertContribution.history) ? [...insertContribution.history] : [],
+      pullRequestUrl: insertContribution.pullRequestUrl || null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.contributions.set(id, contribution);
+    this.dirty = true;
+    return contribution;
+  }
+
+  async updateContribution(id: string, updateData: Partial<InsertContribution>): Promise<Contribution | undefined> {
+    const contribution = this.contributions.get(id);
+    if (!contribution) return undefined;
+
+    const updatedContribution = {
+      ...contribution,
+      ...updateData,
+      history: Array.isArray(updateData.history) ? [...updateData.history] : contribution.history,
+      updatedAt: new Date()
+    };
+    this.contributions.set(id, updatedContribution);
+    this.dirty = true;
+    return updatedContribution;
+  }
+
+  // Preference methods
+  async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
+    return this.userPreferences.get(userId);
+  }
+
+  async saveUserPreferences(insertPreferences: InsertUserPreferences): Promise<UserPreferences> {
+    const preferences: UserPreferences = {
+      userId: insertPreferences.userId,
+      defaultDifficulties: Array.isArray(insertPreferences.defaultDifficulties) ? [...insertPreferences.defaultDifficulties] : [...DEFAULT_USER_PREFERENCES.defaultDifficulties],
+      preferredLanguages: Array.isArray(insertPreferences.preferredLanguages) ? [...insertPreferences.preferredLanguages] : [],
+      excludedLanguages: Array.isArray(insertPreferences.excludedLanguages) ? [...insertPreferences.excludedLanguages] : [],
+      repositorySize: insertPreferences.repositorySize ?? DEFAULT_USER_PREFERENCES.repositorySize,
+      sortBy: insertPreferences.sortBy ?? DEFAULT_USER_PREFERENCES.sortBy,
+      pageSize: insertPreferences.pageSize ?? DEFAULT_USER_PREFERENCES.pageSize,
+      hiddenOrgs: Array.isArray(insertPreferences.hiddenOrgs) ? [...insertPreferences.hiddenOrgs] : [],
+      hiddenRepositories: Array.isArray(insertPreferences.hiddenRepositories) ? [...insertPreferences.hiddenRepositories] : [],
+      hiddenLabels: Array.isArray(insertPreferences.hiddenLabels) ? [...insertPreferences.hiddenLabels] : [],
+      updatedAt: new Date(),
+    };
+    this.userPreferences.set(preferences.userId, preferences);
+    this.dirty = true;
+    return preferences;
+  }
+
+  // Saved search methods
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(savedSearch => savedSearch.userId === userId)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async getAllSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values());
+  }
+
+  async createSavedSearch(insertSavedSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const id = randomUUID();
+    const savedSearch: SavedSearch = {
+      ...insertSavedSearch,
+      id,
+      filters: { ...insertSavedSearch.filters },
+      seenIssueIds: Array.isArray(insertSavedSearch.seenIssueIds) ? [...insertSavedSearch.seenIssueIds] : [],
+      lastCheckedAt: insertSavedSearch.lastCheckedAt || null,
+      createdAt: new Date()
+    };
+    this.savedSearches.set(id, savedSearch);
+    this.dirty = true;
+    return savedSearch;
+  }
+
+  async updateSavedSearch(id: string, updateData: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const savedSearch = this.savedSearches.get(id);
+    if (!savedSearch) return undefined;
+
+    const updatedSavedSearch = {
+      ...savedSearch,
+      ...updateData,
+      filters: updateData.filters ? { ...updateData.filters } : savedSearch.filters,
+      seenIssueIds: Array.isArray(updateData.seenIssueIds) ? [...updateData.seenIssueIds] : savedSearch.seenIssueIds,
+    };
+    this.savedSearches.set(id, updatedSavedSearch);
+    this.dirty = true;
+    return updatedSavedSearch;
+  }
+
+  async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+    if (this.savedSearches.get(id)?.userId !== userId) return false;
+    this.savedSearches.delete(id);
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.savedSearchId === id) this.notifications.delete(notification.id);
     }
+    this.dirty = true;
+    return true;
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, limit: number): Promise<NotificationWithSearch[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && this.savedSearches.has(notification.savedSearchId))
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .slice(0, limit)
+      .map(notification => {
+        const { id, name, filters } = this.savedSearches.get(notification.savedSearchId)!;
+        return { ...notification, savedSearch: { id, name, filters } };
+      });
+  }
 
-    return score;
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = randomUUID();
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      issueIds: [...insertNotification.issueIds],
+      readAt: insertNotification.readAt || null,
+      createdAt: new Date()
+    };
+    this.notifications.set(id, notification);
+    this.dirty = true;
+    return notification;
+  }
+
+  async markNotificationsRead(userId: string): Promise<number> {
+    const unread = Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt);
+    const readAt = new Date();
+    for (const notification of unread) {
+      this.notifications.set(notification.id, { ...notification, readAt });
+    }
+    if (unread.length > 0) this.dirty = true;
+    return unread.length;
   }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise fall back to in-memory storage
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDatabase(process.env.DATABASE_URL).db)
+  : new MemStorage({
+      snapshotPath: process.env.MEMSTORAGE_SNAPSHOT_PATH,
+      snapshotIntervalMs: process.env.MEMSTORAGE_SNAPSHOT_INTERVAL_MS
+        ? parseInt(process.env.MEMSTORAGE_SNAPSHOT_INTERVAL_MS, 10)
+        : undefined,
+    });
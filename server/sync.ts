@@ -0,0 +1,386 @@
+import { storage } from "./storage";
+import { github, GitHubApiError, type GitHubIssue, type GitHubRepo } from "./github";
+import { classifyDifficulty } from "./difficulty";
+import { detectedStatus, findLinkedPullRequests, transitionContribution } from "./contributions";
+import { evaluateSavedSearch } from "./saved-searches";
+import { issueIndex } from "./text-index";
+import type { InsertIssue, InsertSyncQuery, Issue, Repository, SyncProgress, SyncQuery } from "@shared/schema";
+
+// Beginner-friendly searches across popular repositories, stored on first boot
+const DEFAULT_SYNC_QUERIES: InsertSyncQuery[] = [
+  { name: 'Good first issues', query: 'label:"good first issue" state:open' },
+  { name: 'Beginner friendly', query: 'label:"beginner friendly" state:open' },
+  { name: 'Help wanted: JavaScript', query: 'label:"help wanted" state:open language:javascript' },
+  { name: 'Help wanted: Python', query: 'label:"help wanted" state:open language:python' },
+  { name: 'Help wanted: TypeScript', query: 'label:"help wanted" state:open language:typescript' },
+  { name: 'Good first issues: Go', query: 'label:"good first issue" state:open language:go' },
+];
+
+// GitHub search never returns more than 1000 results per query
+const SEARCH_PAGE_SIZE = 50;
+const MAX_SEARCH_RESULTS = 1000;
+
+// How many stored issues each sync re-checks against GitHub
+const reconcileLimit = parseInt(process.env.SYNC_RECONCILE_LIMIT || '100', 10) || 100;
+
+export interface SyncReport {
+  counts: {
+    fetched: number;
+    synced: number;
+    added: number;
+    changed: number;
+    unchanged: number;
+    failed: number;
+    rechecked: number;
+    retired: number;
+    contributionsUpdated: number;
+    notificationsCreated: number;
+  };
+  errors: string[];
+}
+
+export type SyncProgressListener = (progress: SyncProgress, report: SyncReport) => void;
+
+export function hasRecommendedLabel(labels: string[]): boolean {
+  return labels.some(label =>
+    ['good first issue', 'beginner friendly', 'help wanted'].includes(label.toLowerCase())
+  );
+}
+
+// Issue-level fields from a GitHub issue payload; repository fields are filled in by the caller.
+// Repository stars are only a hint for the difficulty classifier.
+export function toIssueFields(githubIssue: GitHubIssue, repositoryStars?: number | null) {
+  const labels = githubIssue.labels?.map(label => label.name) || [];
+  const { difficulty, confidence } = classifyDifficulty({
+    labels,
+    title: githubIssue.title,
+    body: githubIssue.body,
+    comments: githubIssue.comments,
+    repositoryStars,
+  });
+
+  return {
+    githubId: githubIssue.id,
+    number: githubIssue.number,
+    title: githubIssue.title,
+    body: githubIssue.body || '',
+    state: githubIssue.state,
+    labels,
+    assignees: githubIssue.assignees?.map(assignee => assignee.login) || [],
+    locked: githubIssue.locked || false,
+    closedAt: githubIssue.closed_at ? new Date(githubIssue.closed_at) : null,
+    comments: githubIssue.comments,
+    difficulty,
+    difficultyConfidence: confidence,
+    isRecommended: hasRecommendedLabel(labels),
+    githubCreatedAt: new Date(githubIssue.created_at),
+    githubUpdatedAt: new Date(githubIssue.updated_at),
+  } satisfies Partial<InsertIssue>;
+}
+
+// Everything stored for an issue, with repository fields copied from its stored repository
+export function toIssueData(githubIssue: GitHubIssue, repository: Repository) {
+  return {
+    ...toIssueFields(githubIssue, repository.stars),
+    language: repository.language,
+    repositoryId: repository.id,
+    repositoryName: repository.name,
+    repositoryOwner: repository.owner,
+    repositoryStars: repository.stars,
+    repositoryForks: repository.forks,
+    lastCheckedAt: new Date(),
+  };
+}
+
+function isAvailable(issue: Pick<Issue, 'state' | 'locked' | 'assignees'>): boolean {
+  return issue.state === 'open' && !issue.locked && (!issue.assignees || issue.assignees.length === 0);
+}
+
+// Loads every stored issue into the content similarity index, once at startup
+export async function indexStoredIssues() {
+  issueIndex.update(await storage.getAllIssues());
+}
+
+export function indexIssue(issue: Issue | undefined) {
+  if (issue) issueIndex.update([issue]);
+}
+
+// Stores the default queries when none exist yet, e.g. on a fresh database
+export async function seedDefaultSyncQueries() {
+  const existing = await storage.getSyncQueries();
+  if (existing.length > 0) return;
+
+  for (const syncQuery of DEFAULT_SYNC_QUERIES) {
+    await storage.createSyncQuery(syncQuery);
+  }
+}
+
+export async function upsertRepository(githubRepo: GitHubRepo): Promise<Repository> {
+  const repositoryData = {
+    githubId: githubRepo.id,
+    name: githubRepo.name,
+    fullName: githubRepo.full_name,
+    owner: githubRepo.owner.login,
+    description: githubRepo.description,
+    language: githubRepo.language,
+    stars: githubRepo.stargazers_count,
+    forks: githubRepo.forks_count,
+    openIssues: githubRepo.open_issues_count,
+    isPrivate: githubRepo.private,
+    topics: githubRepo.topics || [],
+    license: githubRepo.license?.spdx_id || githubRepo.license?.name || null,
+    defaultBranch: githubRepo.default_branch,
+    pushedAt: githubRepo.pushed_at ? new Date(githubRepo.pushed_at) : null,
+  };
+
+  const existingRepository = await storage.getRepositoryByGithubId(githubRepo.id);
+  if (existingRepository) {
+    return (await storage.updateRepository(existingRepository.id, repositoryData))!;
+  }
+  return storage.createRepository(repositoryData);
+}
+
+// GitHub search accepts ISO 8601 timestamps without milliseconds
+function formatSearchDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+// Fetches the issues matching a query that were updated since its last successful sync.
+// Returns them along with the cursor to store once they have been processed.
+// Cursors are keyed by query text, so editing a query starts it over from scratch.
+async function searchUpdatedIssues(syncQuery: SyncQuery): Promise<{ items: GitHubIssue[]; nextCursor: Date }> {
+  const startedAt = new Date();
+  const { query } = syncQuery;
+  const cursor = await storage.getSyncCursor(query);
+  const maxPages = Math.min(syncQuery.maxPages || 3, MAX_SEARCH_RESULTS / SEARCH_PAGE_SIZE);
+
+  const q = cursor ? `${query} updated:>=${formatSearchDate(new Date(cursor.lastSyncedAt))}` : query;
+  // The first sync takes the newest issues; after that we walk oldest-first so that
+  // hitting the page cap resumes from the last issue seen instead of skipping the rest
+  const order = cursor ? 'asc' : 'desc';
+
+  const items: GitHubIssue[] = [];
+  let exhausted = false;
+  for (let page = 1; page <= maxPages; page++) {
+    const searchResult = await github.request<{ total_count: number; items: GitHubIssue[] }>(
+      `/search/issues?q=${encodeURIComponent(q)}&sort=updated&order=${order}&per_page=${SEARCH_PAGE_SIZE}&page=${page}`
+    );
+    const pageItems = searchResult.items || [];
+    items.push(...pageItems);
+    if (pageItems.length < SEARCH_PAGE_SIZE || items.length >= searchResult.total_count) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  const nextCursor = exhausted || !cursor
+    ? startedAt
+    : new Date(items[items.length - 1].updated_at);
+  return { items, nextCursor };
+}
+
+export async function syncIssues(onProgress?: SyncProgressListener): Promise<SyncReport> {
+  const report: SyncReport = {
+    counts: { fetched: 0, synced: 0, added: 0, changed: 0, unchanged: 0, failed: 0, rechecked: 0, retired: 0, contributionsUpdated: 0, notificationsCreated: 0 },
+    errors: [],
+  };
+
+  let allIssues: GitHubIssue[] = [];
+  const searches = new Map<string, { items: GitHubIssue[]; nextCursor: Date }>();
+  // GitHub ids of issues that couldn't be stored this run
+  const failedIds = new Set<number>();
+
+  // Queries come back highest priority first, so they get the rate limit budget first
+  const searchQueries = (await storage.getSyncQueries()).filter(syncQuery => syncQuery.enabled);
+
+  for (let index = 0; index < searchQueries.length; index++) {
+    const syncQuery = searchQueries[index];
+    onProgress?.({ phase: 'searching', processed: index, total: searchQueries.length }, report);
+    try {
+      const search = await searchUpdatedIssues(syncQuery);
+      allIssues = allIssues.concat(search.items);
+      searches.set(syncQuery.query, search);
+    } catch (error) {
+      console.warn(`Failed to fetch issues for query: ${syncQuery.query}`, error);
+      report.errors.push(`Query ${syncQuery.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Remove duplicates and process issues
+  const uniqueIssues = allIssues.filter((issue, index, self) =>
+    index === self.findIndex(i => i.id === issue.id)
+  );
+  report.counts.fetched = uniqueIssues.length;
+
+  // Many issues share a repository; fetch and store each one only once per sync run
+  const repoRequests = new Map<string, Promise<Repository>>();
+  const syncRepo = (owner: string, repoName: string) => {
+    const key = `${owner}/${repoName}`.toLowerCase();
+    if (!repoRequests.has(key)) {
+      repoRequests.set(key, github.request<GitHubRepo>(`/repos/${owner}/${repoName}`).then(upsertRepository));
+    }
+    return repoRequests.get(key)!;
+  };
+
+  for (let index = 0; index < uniqueIssues.length; index++) {
+    const githubIssue = uniqueIssues[index];
+    onProgress?.({ phase: 'processing', processed: index, total: uniqueIssues.length }, report);
+    try {
+      // Issues GitHub hasn't touched since we stored them need no further requests
+      const existingIssue = await storage.getIssueByGithubId(githubIssue.id);
+      if (existingIssue?.githubUpdatedAt && new Date(existingIssue.githubUpdatedAt).getTime() === new Date(githubIssue.updated_at).getTime()) {
+        report.counts.unchanged++;
+        continue;
+      }
+
+      // Extract repository info from URL
+      const repoInfo = githubIssue.repository_url.split('/').slice(-2);
+      const [owner, repoName] = repoInfo;
+
+      // Fetch repository details
+      let repository;
+      try {
+        repository = await syncRepo(owner, repoName);
+      } catch (error) {
+        console.warn(`Failed to fetch repo details for ${owner}/${repoName}`);
+        failedIds.add(githubIssue.id);
+        report.counts.failed++;
+        report.errors.push(`Repository ${owner}/${repoName}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      const issueData = toIssueData(githubIssue, repository);
+
+      if (existingIssue) {
+        indexIssue(await storage.updateIssue(existingIssue.id, issueData));
+        report.counts.changed++;
+        if (isAvailable(existingIssue) && !isAvailable(issueData)) {
+          report.counts.retired++;
+        }
+      } else {
+        indexIssue(await storage.createIssue(issueData));
+        report.counts.added++;
+      }
+
+      report.counts.synced++;
+    } catch (error) {
+      console.warn(`Failed to process issue ${githubIssue.id}:`, error);
+      failedIds.add(githubIssue.id);
+      report.counts.failed++;
+      report.errors.push(`Issue ${githubIssue.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Only advance cursors once their issues are stored, so a crashed run is retried in full.
+  // A query whose issues failed stops at the earliest of them, so the next run's
+  // updated:>= search fetches them again instead of skipping them until they next change.
+  for (const [query, { items, nextCursor }] of Array.from(searches.entries())) {
+    const failedTimes = items
+      .filter(item => failedIds.has(item.id))
+      .map(item => new Date(item.updated_at).getTime());
+    await storage.setSyncCursor(query, new Date(Math.min(nextCursor.getTime(), ...failedTimes)));
+  }
+
+  await reconcileIssues(new Set(uniqueIssues.map(issue => issue.id)), report, onProgress);
+  await detectContributionProgress(report, onProgress);
+  // Last, so saved searches see every change this run made
+  await evaluateSavedSearches(report, onProgress);
+
+  onProgress?.({ phase: 'done', processed: report.counts.rechecked, total: report.counts.rechecked }, report);
+  return report;
+}
+
+// Re-checks bookmarked open issues and then those confirmed least recently, recording
+// whether they have since been closed, locked or assigned. Issues returned by this
+// run's searches are already fresh and are skipped.
+async function reconcileIssues(seenGithubIds: Set<number>, report: SyncReport, onProgress?: SyncProgressListener) {
+  const candidates = (await storage.getIssuesToReconcile(reconcileLimit + seenGithubIds.size))
+    .filter(issue => !seenGithubIds.has(issue.githubId))
+    .slice(0, reconcileLimit);
+
+  for (let index = 0; index < candidates.length; index++) {
+    const issue = candidates[index];
+    onProgress?.({ phase: 'reconciling', processed: index, total: candidates.length }, report);
+
+    let update: Partial<InsertIssue>;
+    try {
+      const githubIssue = await github.request<GitHubIssue>(
+        `/repos/${issue.repositoryOwner}/${issue.repositoryName}/issues/${issue.number}`
+      );
+      update = { ...toIssueFields(githubIssue, issue.repositoryStars), lastCheckedAt: new Date() };
+    } catch (error) {
+      // Deleted, transferred or now-private issues can no longer be worked on
+      if (error instanceof GitHubApiError && (error.status === 404 || error.status === 410)) {
+        update = { state: 'closed', closedAt: new Date(), lastCheckedAt: new Date() };
+      } else {
+        console.warn(`Failed to reconcile issue ${issue.githubId}:`, error);
+        report.errors.push(`Reconcile ${issue.repositoryOwner}/${issue.repositoryName}#${issue.number}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+    }
+
+    try {
+      const updated = await storage.updateIssue(issue.id, update);
+      indexIssue(updated);
+      report.counts.rechecked++;
+      if (updated && isAvailable(issue) && !isAvailable(updated)) {
+        report.counts.retired++;
+      }
+    } catch (error) {
+      console.warn(`Failed to record reconciled issue ${issue.githubId}:`, error);
+      report.errors.push(`Reconcile ${issue.githubId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+// Moves tracked contributions to pr_opened or merged when the contributor's pull request
+// shows up on the issue's timeline
+async function detectContributionProgress(report: SyncReport, onProgress?: SyncProgressListener) {
+  const openContributions = await storage.getOpenContributions();
+  const usernames = new Map<string, string | undefined>();
+
+  for (let index = 0; index < openContributions.length; index++) {
+    const contribution = openContributions[index];
+    onProgress?.({ phase: 'contributions', processed: index, total: openContributions.length }, report);
+
+    const issue = await storage.getIssue(contribution.issueId);
+    if (!usernames.has(contribution.userId)) {
+      usernames.set(contribution.userId, (await storage.getUser(contribution.userId))?.username);
+    }
+    const username = usernames.get(contribution.userId);
+    if (!issue || !username) continue;
+
+    try {
+      const detected = detectedStatus(contribution.status, await findLinkedPullRequests(issue, username));
+      if (!detected) continue;
+
+      await transitionContribution(contribution.userId, contribution.issueId, detected.status, {
+        source: 'sync',
+        note: `Detected pull request #${detected.pullRequest.number}`,
+        pullRequestUrl: detected.pullRequest.url,
+      });
+      report.counts.contributionsUpdated++;
+    } catch (error) {
+      console.warn(`Failed to check pull requests for issue ${issue.githubId}:`, error);
+      report.errors.push(`Pull requests ${issue.repositoryOwner}/${issue.repositoryName}#${issue.number}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+async function evaluateSavedSearches(report: SyncReport, onProgress?: SyncProgressListener) {
+  const savedSearches = await storage.getAllSavedSearches();
+
+  for (let index = 0; index < savedSearches.length; index++) {
+    const savedSearch = savedSearches[index];
+    onProgress?.({ phase: 'saved-searches', processed: index, total: savedSearches.length }, report);
+
+    try {
+      if (await evaluateSavedSearch(savedSearch)) {
+        report.counts.notificationsCreated++;
+      }
+    } catch (error) {
+      console.warn(`Failed to evaluate saved search ${savedSearch.id}:`, error);
+      report.errors.push(`Saved search "${savedSearch.name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import type { Issue } from "@shared/schema";
+
+// Common English and GitHub-template filler that says nothing about an issue's subject
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'but', 'by', 'can', 'could', 'do', 'does', 'for', 'from', 'get', 'has', 'have', 'how', 'if', 'in',
+  'into', 'is', 'it', 'its', 'just', 'like', 'may', 'more', 'my', 'no', 'not', 'of', 'on', 'one', 'or',
+  'other', 'our', 'out', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'to', 'up', 'use', 'using', 'was', 'we', 'were', 'what', 'when',
+  'which', 'while', 'who', 'will', 'with', 'would', 'you', 'your',
+  'issue', 'issues', 'expected', 'actual', 'behavior', 'behaviour', 'steps', 'reproduce', 'describe',
+  'description', 'please', 'thanks', 'http', 'https', 'www', 'com', 'github',
+]);
+
+// Terms whose symbols are meaningful; everywhere else + and # are just punctuation
+const SYMBOL_TERMS = new Set(['c++', 'c#', 'f#']);
+
+const MAX_BODY_LENGTH = 5000;
+
+// Lowercased word tokens; camelCase and snake/kebab-case names are split into their words
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .map(token => SYMBOL_TERMS.has(token) ? token : token.replace(/[+#]/g, ''))
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token) && !/^\d+$/.test(token))
+    .map(singularize);
+}
+
+// Just enough stemming that "hooks" matches "hook"; words like "class" and "status" are left alone
+function singularize(token: string): string {
+  if (token.length <= 3 || !token.endsWith('s') || /(ss|us|is)$/.test(token)) return token;
+  return token.endsWith('ies') ? `${token.slice(0, -3)}y` : token.slice(0, -1);
+}
+
+export function termFrequencies(tokens: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const token of tokens) {
+    counts[token] = (counts[token] || 0) + 1;
+  }
+  return counts;
+}
+
+// Title and labels describe the issue more reliably than a long body, so they count twice
+function issueText(issue: Issue): string {
+  const heading = [issue.title, ...(issue.labels || [])].join(' ');
+  return `${heading} ${heading} ${(issue.body || '').slice(0, MAX_BODY_LENGTH)}`;
+}
+
+interface IndexedDocument {
+  version: number;
+  terms: Record<string, number>;
+  length: number;
+}
+
+export interface SimilarityResult {
+  score: number;
+  // Shared terms ordered by how much they contributed
+  matchedTerms: string[];
+}
+
+// TF-IDF index over issue text; documents are only re-tokenized when their issue has changed
+export class TextIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequency = new Map<string, number>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  update(issues: Issue[]) {
+    for (const issue of issues) {
+      const version = new Date(issue.updatedAt || 0).getTime();
+      if (this.documents.get(issue.id)?.version === version) continue;
+
+      this.remove(issue.id);
+      const tokens = tokenize(issueText(issue));
+      const terms = termFrequencies(tokens);
+      this.documents.set(issue.id, { version, terms, length: tokens.length });
+      for (const term of Object.keys(terms)) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  remove(id: string) {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    for (const term of Object.keys(existing.terms)) {
+      const frequency = (this.documentFrequency.get(term) || 1) - 1;
+      if (frequency > 0) {
+        this.documentFrequency.set(term, frequency);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    }
+    this.documents.delete(id);
+  }
+
+  idf(term: string): number {
+    return Math.log(1 + this.documents.size / (1 + (this.documentFrequency.get(term) || 0)));
+  }
+
+  // Cosine similarity between a weighted term profile and an indexed issue
+  similarity(profile: Record<string, number>, id: string): SimilarityResult {
+    const document = this.documents.get(id);
+    if (!document || document.length === 0) return { score: 0, matchedTerms: [] };
+
+    let dot = 0;
+    let profileNorm = 0;
+    let documentNorm = 0;
+    const contributions: Array<[string, number]> = [];
+
+    for (const [term, weight] of Object.entries(profile)) {
+      const profileWeight = weight * this.idf(term);
+      profileNorm += profileWeight * profileWeight;
+
+      const frequency = document.terms[term];
+      if (frequency) {
+        const contribution = profileWeight * (frequency / document.length) * this.idf(term);
+        dot += contribution;
+        contributions.push([term, contribution]);
+      }
+    }
+    if (dot === 0) return { score: 0, matchedTerms: [] };
+
+    for (const [term, frequency] of Object.entries(document.terms)) {
+      const documentWeight = (frequency / document.length) * this.idf(term);
+      documentNorm += documentWeight * documentWeight;
+    }
+
+    return {
+      score: dot / (Math.sqrt(profileNorm) * Math.sqrt(documentNorm)),
+      matchedTerms: contributions.sort(([, a], [, b]) => b - a).map(([term]) => term),
+    };
+  }
+}
+
+// Every stored issue, so term rarity reflects the whole synced corpus; kept current as issues are stored
+export const issueIndex = new TextIndex();
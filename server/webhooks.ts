@@ -0,0 +1,148 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { hasRecommendedLabel, indexIssue, toIssueData, upsertRepository } from "./sync";
+import { classifyDifficulty } from "./difficulty";
+import { github, GitHubApiError, type GitHubIssue, type GitHubRepo } from "./github";
+
+interface IssuesEventPayload {
+  action: string;
+  issue: GitHubIssue & { pull_request?: unknown };
+  repository: GitHubRepo;
+}
+
+interface LabelEventPayload {
+  action: string;
+  label: { name: string };
+  changes?: { name?: { from: string } };
+  repository: GitHubRepo;
+}
+
+export interface WebhookResult {
+  handled: boolean;
+  detail: string;
+}
+
+// GitHub signs the raw request body with the webhook secret as "sha256=<hex digest>"
+export function verifyWebhookSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature || !signature.startsWith("sha256=")) return false;
+
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// The payload's shape depends on the event, so it is only narrowed once the event is known
+export async function handleWebhookEvent(event: string | undefined, payload: unknown): Promise<WebhookResult> {
+  switch (event) {
+    case "ping":
+      return { handled: true, detail: "pong" };
+    case "issues":
+    case "issue_comment":
+      return handleIssueEvent(event, payload as IssuesEventPayload);
+    case "label":
+      return handleLabelEvent(payload as LabelEventPayload);
+    default:
+      return { handled: false, detail: `Ignored ${event || "unknown"} event` };
+  }
+}
+
+async function handleIssueEvent(event: string, payload: IssuesEventPayload): Promise<WebhookResult> {
+  const { action, issue: githubIssue, repository: githubRepo } = payload;
+
+  // issue_comment also fires for pull request comments
+  if (githubIssue.pull_request) {
+    return { handled: false, detail: "Ignored pull request" };
+  }
+
+  const existingIssue = await storage.getIssueByGithubId(githubIssue.id);
+
+  // GitHub doesn't guarantee delivery order, so an event older than what we stored
+  // (from a sync or a later delivery) would roll the issue back
+  if (existingIssue?.githubUpdatedAt && new Date(githubIssue.updated_at) < new Date(existingIssue.githubUpdatedAt)) {
+    return { handled: false, detail: `Ignored stale ${event} event for issue ${githubIssue.id}` };
+  }
+
+  // Deleted or transferred issues can no longer be worked on in this repository. Their
+  // update time moves to now so events delivered late can't reopen them.
+  if (event === "issues" && (action === "deleted" || action === "transferred")) {
+    if (!existingIssue) return { handled: false, detail: `Issue ${githubIssue.id} is not tracked` };
+    const now = new Date();
+    indexIssue(await storage.updateIssue(existingIssue.id, { state: "closed", closedAt: now, githubUpdatedAt: now, lastCheckedAt: now }));
+    return { handled: true, detail: `Closed issue ${githubIssue.id}` };
+  }
+
+  // Only start tracking issues that would be recommended; known issues are always kept current
+  const labels = githubIssue.labels?.map(label => label.name) || [];
+  if (!existingIssue && !hasRecommendedLabel(labels)) {
+    return { handled: false, detail: `Issue ${githubIssue.id} is not tracked` };
+  }
+
+  const repository = await upsertRepository(githubRepo);
+  const issueData = toIssueData(githubIssue, repository);
+
+  if (existingIssue) {
+    indexIssue(await storage.updateIssue(existingIssue.id, issueData));
+    return { handled: true, detail: `Updated issue ${githubIssue.id}` };
+  }
+
+  indexIssue(await storage.createIssue(issueData));
+  return { handled: true, detail: `Created issue ${githubIssue.id}` };
+}
+
+// Renamed or deleted labels are rewritten on every stored issue of the repository
+async function handleLabelEvent(payload: LabelEventPayload): Promise<WebhookResult> {
+  const { action, label, changes, repository: githubRepo } = payload;
+
+  const oldName = action === "edited" ? changes?.name?.from : action === "deleted" ? label.name : undefined;
+  if (!oldName) {
+    return { handled: false, detail: `Ignored label ${action}` };
+  }
+
+  const repository = await storage.getRepositoryByGithubId(githubRepo.id);
+  if (!repository) {
+    return { handled: false, detail: `Repository ${githubRepo.full_name} is not tracked` };
+  }
+
+  // Label payloads carry no timestamp, so ask GitHub whether the change still holds: a
+  // renamed label that has since been renamed again or deleted, or a deleted label that
+  // has since been re-created, means a later event already superseded this one
+  const superseded = action === "edited"
+    ? !(await labelExists(githubRepo, label.name))
+    : await labelExists(githubRepo, oldName);
+  if (superseded) {
+    return { handled: false, detail: `Ignored stale label ${action} for ${oldName}` };
+  }
+
+  const repositoryIssues = await storage.getIssuesByRepositoryId(repository.id);
+  let updated = 0;
+
+  for (const issue of repositoryIssues) {
+    const currentLabels = issue.labels || [];
+    if (!currentLabels.includes(oldName)) continue;
+
+    const labels = action === "deleted"
+      ? currentLabels.filter(name => name !== oldName)
+      : currentLabels.map(name => name === oldName ? label.name : name);
+
+    const { difficulty, confidence } = classifyDifficulty({ ...issue, labels });
+    indexIssue(await storage.updateIssue(issue.id, {
+      labels,
+      difficulty,
+      difficultyConfidence: confidence,
+      isRecommended: hasRecommendedLabel(labels),
+    }));
+    updated++;
+  }
+
+  return { handled: true, detail: `Updated labels on ${updated} issues` };
+}
+
+async function labelExists(githubRepo: GitHubRepo, name: string): Promise<boolean> {
+  try {
+    await github.request(`/repos/${githubRepo.full_name}/labels/${encodeURIComponent(name)}`);
+    return true;
+  } catch (error) {
+    if (error instanceof GitHubApiError && error.status === 404) return false;
+    throw error;
+  }
+}
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ageCutoff, isCalendarDay, parseSearchQuery, SearchQuerySyntaxError } from "./search-query";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -14,6 +15,10 @@ export const users = pgTable("users", {
   followers: integer("followers").default(0),
   following: integer("following").default(0),
   topLanguages: jsonb("top_languages").$type<string[]>().default([]),
+  // Share of the user's recent code per language, summing to 1
+  languageWeights: jsonb("language_weights").$type<Record<string, number>>().default({}),
+  // Terms from the user's bio and repositories, weighted by importance (strongest is 1)
+  interestTerms: jsonb("interest_terms").$type<Record<string, number>>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -29,6 +34,10 @@ export const repositories = pgTable("repositories", {
   forks: integer("forks").default(0),
   openIssues: integer("open_issues").default(0),
   isPrivate: boolean("is_private").default(false),
+  topics: jsonb("topics").$type<string[]>().default([]),
+  license: text("license"),
+  defaultBranch: text("default_branch"),
+  pushedAt: timestamp("pushed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -41,18 +50,156 @@ export const issues = pgTable("issues", {
   body: text("body"),
   state: text("state").notNull(),
   labels: jsonb("labels").$type<string[]>().default([]),
+  assignees: jsonb("assignees").$type<string[]>().default([]),
+  locked: boolean("locked").default(false),
+  closedAt: timestamp("closed_at"),
   language: text("language"),
+  repositoryId: varchar("repository_id").references(() => repositories.id),
+  // Copied from the repository so issue filters and sorts don't need a join
   repositoryName: text("repository_name").notNull(),
   repositoryOwner: text("repository_owner").notNull(),
   repositoryStars: integer("repository_stars").default(0),
   repositoryForks: integer("repository_forks").default(0),
   comments: integer("comments").default(0),
   difficulty: text("difficulty"), // beginner, intermediate, advanced
+  difficultyConfidence: real("difficulty_confidence"), // 0-1, from the heuristic classifier
   isRecommended: boolean("is_recommended").default(false),
+  // Timestamps reported by GitHub; createdAt/updatedAt track our own copy
+  githubCreatedAt: timestamp("github_created_at"),
+  githubUpdatedAt: timestamp("github_updated_at"),
+  // Last time reconciliation confirmed the issue's state with GitHub
+  lastCheckedAt: timestamp("last_checked_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Last response seen per GitHub API endpoint, replayed when GitHub answers 304 Not Modified
+export const githubResponseCache = pgTable("github_response_cache", {
+  endpoint: text("endpoint").primaryKey(),
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  body: jsonb("body").notNull(),
+  fetchedAt: timestamp("fetched_at").defaultNow(),
+});
+
+export interface SyncProgress {
+  phase: string;
+  processed: number;
+  total: number;
+}
+
+export const syncRuns = pgTable("sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: text("trigger").notNull(), // manual, scheduled
+  status: text("status").notNull(), // queued, running, succeeded, failed
+  progress: jsonb("progress").$type<SyncProgress>(),
+  counts: jsonb("counts").$type<Record<string, number>>().default({}),
+  errors: jsonb("errors").$type<string[]>().default([]),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// GitHub issue searches run by each sync, highest priority first
+export const syncQueries = pgTable("sync_queries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
+  enabled: boolean("enabled").default(true),
+  maxPages: integer("max_pages").default(3),
+  priority: integer("priority").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Last successful sync per search query, used to only fetch issues updated since then
+export const syncCursors = pgTable("sync_cursors", {
+  query: text("query").primaryKey(),
+  lastSyncedAt: timestamp("last_synced_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const FEEDBACK_ACTIONS = ["dismiss", "not_interested_repo", "not_interested_language"] as const;
+
+// What a user told us they don't want; the target is an issue id, "owner/name" or a language
+export const userFeedback = pgTable("user_feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  action: text("action").notNull(),
+  target: text("target").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.userId, table.action, table.target)]);
+
+export const bookmarks = pgTable("bookmarks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  issueId: varchar("issue_id").notNull().references(() => issues.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.userId, table.issueId)]);
+
+// Ordered as an issue normally moves through them; abandoned can follow any other status
+export const CONTRIBUTION_STATUSES = ["interested", "claimed", "working", "pr_opened", "merged", "abandoned"] as const;
+export type ContributionStatus = typeof CONTRIBUTION_STATUSES[number];
+
+export const contributionEventSchema = z.object({
+  status: z.enum(CONTRIBUTION_STATUSES),
+  at: z.string(),
+  note: z.string().optional(),
+  // "sync" when the status was inferred from a linked pull request
+  source: z.enum(["user", "sync"]),
+});
+
+export type ContributionEvent = z.infer<typeof contributionEventSchema>;
+
+export const contributions = pgTable("contributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  issueId: varchar("issue_id").notNull().references(() => issues.id),
+  status: text("status").notNull(),
+  history: jsonb("history").$type<ContributionEvent[]>().default([]),
+  pullRequestUrl: text("pull_request_url"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique().on(table.userId, table.issueId)]);
+
+// One row per user; users without a row get DEFAULT_USER_PREFERENCES
+export const userPreferences = pgTable("user_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  defaultDifficulties: jsonb("default_difficulties").$type<string[]>().default(["beginner"]),
+  preferredLanguages: jsonb("preferred_languages").$type<string[]>().default([]),
+  excludedLanguages: jsonb("excluded_languages").$type<string[]>().default([]),
+  repositorySize: text("repository_size").default("any"),
+  sortBy: text("sort_by").default("recent"),
+  pageSize: integer("page_size").default(10),
+  // GitHub owners (orgs or users) whose issues are never shown
+  hiddenOrgs: jsonb("hidden_orgs").$type<string[]>().default([]),
+  // "owner/name", or a bare name to hide it under every owner
+  hiddenRepositories: jsonb("hidden_repositories").$type<string[]>().default([]),
+  hiddenLabels: jsonb("hidden_labels").$type<string[]>().default([]),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  filters: jsonb("filters").$type<SavedSearchFilters>().default({}),
+  // Issues already reported for this search, so each sync only notifies about new matches
+  seenIssueIds: jsonb("seen_issue_ids").$type<string[]>().default([]),
+  lastCheckedAt: timestamp("last_checked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  savedSearchId: varchar("saved_search_id").notNull().references(() => savedSearches.id),
+  issueIds: jsonb("issue_ids").$type<string[]>().default([]),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -70,6 +217,87 @@ export const insertIssueSchema = createInsertSchema(issues).omit({
   updatedAt: true,
 });
 
+export const insertCachedGitHubResponseSchema = createInsertSchema(githubResponseCache).omit({
+  fetchedAt: true,
+});
+
+export const insertSyncQuerySchema = createInsertSchema(syncQueries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  query: z.string().trim().min(1),
+  // GitHub search stops at 1000 results, i.e. 20 pages of 50
+  maxPages: z.number().int().min(1).max(20).optional(),
+  priority: z.number().int().optional(),
+});
+
+export const insertSyncRunSchema = createInsertSchema(syncRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserFeedbackSchema = createInsertSchema(userFeedback).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  action: z.enum(FEEDBACK_ACTIONS),
+  target: z.string().trim().min(1),
+});
+
+export const insertBookmarkSchema = createInsertSchema(bookmarks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertContributionSchema = createInsertSchema(contributions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  history: z.array(contributionEventSchema).nullable().optional(),
+});
+
+// A status change requested by the user
+export const contributionTransitionSchema = z.object({
+  issueId: z.string().min(1),
+  status: z.enum(CONTRIBUTION_STATUSES),
+  note: z.string().trim().max(2000).optional(),
+});
+
+const DIFFICULTIES = ["beginner", "intermediate", "advanced"] as const;
+const REPOSITORY_SIZES = ["any", "small", "medium", "large"] as const;
+// relevance ranks by the free text in the search and falls back to recent without any
+const SORT_ORDERS = ["recent", "stars", "match", "comments", "relevance"] as const;
+
+const nameList = z.array(z.string().trim().min(1)).max(100);
+const age = z.string().refine(value => ageCutoff(value) !== undefined, "Expected an age such as 7d");
+const day = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date such as 2024-01-31")
+  .refine(isCalendarDay, "Expected a date that exists, such as 2024-01-31");
+
+export const insertUserPreferencesSchema = createInsertSchema(userPreferences).omit({
+  updatedAt: true,
+}).extend({
+  defaultDifficulties: z.array(z.enum(DIFFICULTIES)).optional(),
+  preferredLanguages: nameList.optional(),
+  excludedLanguages: nameList.optional(),
+  repositorySize: z.enum(REPOSITORY_SIZES).optional(),
+  sortBy: z.enum(SORT_ORDERS).optional(),
+  pageSize: z.number().int().min(1).max(100).optional(),
+  hiddenOrgs: nameList.optional(),
+  hiddenRepositories: nameList.optional(),
+  hiddenLabels: nameList.optional(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  issueIds: z.array(z.string()),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
@@ -79,15 +307,169 @@ export type Repository = typeof repositories.$inferSelect;
 export type InsertIssue = z.infer<typeof insertIssueSchema>;
 export type Issue = typeof issues.$inferSelect;
 
+export type InsertCachedGitHubResponse = z.infer<typeof insertCachedGitHubResponseSchema>;
+export type CachedGitHubResponse = typeof githubResponseCache.$inferSelect;
+
+export type InsertSyncRun = z.infer<typeof insertSyncRunSchema>;
+export type SyncRun = typeof syncRuns.$inferSelect;
+
+export type InsertSyncQuery = z.infer<typeof insertSyncQuerySchema>;
+export type SyncQuery = typeof syncQueries.$inferSelect;
+
+export type SyncCursor = typeof syncCursors.$inferSelect;
+
+export type InsertUserFeedback = z.infer<typeof insertUserFeedbackSchema>;
+export type UserFeedback = typeof userFeedback.$inferSelect;
+
+export type InsertBookmark = z.infer<typeof insertBookmarkSchema>;
+export type Bookmark = typeof bookmarks.$inferSelect;
+
+export type InsertContribution = z.infer<typeof insertContributionSchema>;
+export type Contribution = typeof contributions.$inferSelect;
+export type ContributionTransition = z.infer<typeof contributionTransitionSchema>;
+
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+export type InsertUserPreferences = z.infer<typeof insertUserPreferencesSchema>;
+export type UserPreferences = typeof userPreferences.$inferSelect;
+
+export const DEFAULT_USER_PREFERENCES = {
+  defaultDifficulties: ["beginner"],
+  preferredLanguages: [],
+  excludedLanguages: [],
+  repositorySize: "any",
+  sortBy: "recent",
+  pageSize: 10,
+  hiddenOrgs: [],
+  hiddenRepositories: [],
+  hiddenLabels: [],
+} satisfies Required<Omit<InsertUserPreferences, "userId">>;
+
 // Filter schemas
 export const issueFiltersSchema = z.object({
   languages: z.array(z.string()).optional(),
   difficulty: z.array(z.string()).optional(),
-  repositorySize: z.enum(["any", "small", "medium", "large"]).optional(),
-  search: z.string().optional(),
-  sortBy: z.enum(["recent", "stars", "match", "comments"]).optional(),
+  // Hides issues whose difficulty classification is less certain than this
+  minDifficultyConfidence: z.number().min(0).max(1).optional(),
+  repositorySize: z.enum(REPOSITORY_SIZES).optional(),
+  // Issues in these languages, from these owners or repositories, or carrying any of these
+  // labels are left out. Repositories are "owner/name", or a bare name under any owner.
+  excludeLanguages: z.array(z.string()).optional(),
+  excludeOwners: z.array(z.string()).optional(),
+  excludeRepositories: z.array(z.string()).optional(),
+  excludeLabels: z.array(z.string()).optional(),
+  // Query language described in search-query.ts
+  search: z.string().optional().superRefine((search, ctx) => {
+    if (!search) return;
+    try {
+      parseSearchQuery(search);
+    } catch (error) {
+      if (!(error instanceof SearchQuerySyntaxError)) throw error;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message, params: { position: error.position } });
+    }
+  }),
+  sortBy: z.enum(SORT_ORDERS).optional(),
+  // Windows over GitHub's created and updated times. *Within is an age such as "7d", so a
+  // saved search keeps meaning "the last week"; *From and *To are inclusive UTC days.
+  createdWithin: age.optional(),
+  createdFrom: day.optional(),
+  createdTo: day.optional(),
+  updatedWithin: age.optional(),
+  updatedFrom: day.optional(),
+  updatedTo: day.optional(),
+  // Inclusive; maxComments 0 finds issues nobody has replied to yet
+  minComments: z.number().int().min(0).optional(),
+  maxComments: z.number().int().min(0).optional(),
+  // Closed, locked and assigned issues are hidden unless these are set
+  includeClosed: z.boolean().optional(),
+  includeAssigned: z.boolean().optional(),
   page: z.number().min(1).optional(),
   limit: z.number().min(1).max(100).optional(),
 });
 
 export type IssueFilters = z.infer<typeof issueFiltersSchema>;
+
+// Pagination and ordering belong to whoever views the results, not to the search
+export const savedSearchFiltersSchema = issueFiltersSchema.omit({
+  sortBy: true,
+  page: true,
+  limit: true,
+});
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+  filters: savedSearchFiltersSchema,
+  seenIssueIds: z.array(z.string()).nullable().optional(),
+});
+
+// Recommendation explanations
+export interface ScoreContribution {
+  signal: string;
+  label: string;
+  weight: number;
+  value: number;
+  score: number;
+  reason?: string;
+}
+
+// Character offsets into the issue's text, end exclusive
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface IssueHighlights {
+  title: HighlightRange[];
+  body: HighlightRange[];
+  labels: string[];
+}
+
+// Set on results of a search with free text
+export interface SearchMatch {
+  relevance?: number;
+  highlights?: IssueHighlights;
+}
+
+export type SearchResultIssue = Issue & SearchMatch;
+
+export type RecommendedIssue = SearchResultIssue & {
+  score: number;
+  scoreBreakdown: ScoreContribution[];
+};
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Sidebar counts over the filtered issues. Languages, difficulties and repository sizes
+// are each counted without their own filter, so checking one language still shows what
+// adding another would bring in.
+export interface IssueFacets {
+  languages: FacetCount[];
+  difficulties: FacetCount[];
+  repositorySizes: FacetCount[];
+  labels: FacetCount[];
+  owners: FacetCount[];
+}
+
+export type BookmarkedIssue = Issue & {
+  bookmarkedAt: Date | null;
+};
+
+export type ContributionWithIssue = Contribution & {
+  issue: Issue;
+};
+
+export type NotificationWithSearch = Notification & {
+  savedSearch: Pick<SavedSearch, "id" | "name" | "filters">;
+};
@@ -0,0 +1,195 @@
+// Search box query language, shared so the client can report syntax errors before a
+// request is made and both storages evaluate exactly what the user typed.
+//
+//   query     = term*
+//   term      = ["-"] (qualifier | phrase | word)
+//   qualifier = key ":" (phrase | word)
+//   key       = "lang" | "label" | "org" | "repo" | "stars" | "comments" | "created" | "updated"
+//   phrase    = '"' any character except '"' '"'
+//   word      = any run of non-whitespace characters
+//
+// stars and comments take a number, a comparison (>500, >=1, <3, <=10) or a range (10..50).
+// created and updated take an age (<7d is "within the last 7 days", >1m "more than a month
+// ago"; units h, d, w, m, y) or a date (>2024-01-01); both use GitHub's timestamps. Words
+// with an unknown key, such as "http://example.com", are plain text.
+
+export const SEARCH_QUALIFIERS = ["lang", "label", "org", "repo", "stars", "comments", "created", "updated"] as const;
+export type SearchQualifier = typeof SEARCH_QUALIFIERS[number];
+
+// Inclusive bounds
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+// after is inclusive, before exclusive
+export interface DateRange {
+  after?: Date;
+  before?: Date;
+}
+
+export type SearchTerm =
+  // Quoted phrases match literally; bare words also match their likely misspellings
+  | { kind: "text"; value: string; phrase: boolean; negated: boolean }
+  | { kind: "lang" | "label" | "org" | "repo"; value: string; negated: boolean }
+  | { kind: "stars" | "comments"; range: NumberRange; negated: boolean }
+  | { kind: "created" | "updated"; range: DateRange; negated: boolean };
+
+export class SearchQuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = "SearchQuerySyntaxError";
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: HOUR_MS,
+  d: 24 * HOUR_MS,
+  w: 7 * 24 * HOUR_MS,
+  m: 30 * 24 * HOUR_MS,
+  y: 365 * 24 * HOUR_MS,
+};
+
+const AGE = /^(\d+)([hdwmy])$/;
+const NUMBER_COMPARISON = /^(>=|<=|>|<)?(\d+)$/;
+const NUMBER_RANGE = /^(\d+)\.\.(\d+)$/;
+const AGE_COMPARISON = /^(>=|<=|>|<)?(\d+)([hdwmy])$/;
+const DATE_COMPARISON = /^(>=|<=|>|<)?(\d{4}-\d{2}-\d{2})$/;
+
+function parseNumberRange(qualifier: string, value: string, position: number): NumberRange {
+  const range = NUMBER_RANGE.exec(value);
+  if (range) {
+    const min = parseInt(range[1], 10);
+    const max = parseInt(range[2], 10);
+    if (min > max) {
+      throw new SearchQuerySyntaxError(`${qualifier}:${value} is an empty range`, position);
+    }
+    return { min, max };
+  }
+
+  const comparison = NUMBER_COMPARISON.exec(value);
+  if (!comparison) {
+    throw new SearchQuerySyntaxError(`${qualifier}: expects a number such as >500, <=3 or 10..50`, position);
+  }
+  const number = parseInt(comparison[2], 10);
+  switch (comparison[1]) {
+    case ">": return { min: number + 1 };
+    case ">=": return { min: number };
+    case "<": return { max: number - 1 };
+    case "<=": return { max: number };
+    default: return { min: number, max: number };
+  }
+}
+
+// The moment an age such as "7d" counts back to, or undefined when it isn't an age
+export function ageCutoff(age: string, now = new Date()): Date | undefined {
+  const match = AGE.exec(age);
+  return match ? new Date(now.getTime() - parseInt(match[1], 10) * DURATION_UNITS_MS[match[2]]) : undefined;
+}
+
+// A real calendar day in YYYY-MM-DD form; Date would roll 2024-02-30 over into March
+export function isCalendarDay(value: string): boolean {
+  const day = new Date(`${value}T00:00:00Z`);
+  return !isNaN(day.getTime()) && day.toISOString().slice(0, 10) === value;
+}
+
+// Whole UTC days from one date to another, both inclusive, as YYYY-MM-DD strings
+export function dayRange(from?: string, to?: string): DateRange {
+  return {
+    after: from ? new Date(`${from}T00:00:00Z`) : undefined,
+    before: to ? new Date(new Date(`${to}T00:00:00Z`).getTime() + DURATION_UNITS_MS.d) : undefined,
+  };
+}
+
+function parseDateRange(key: string, value: string, position: number, now: Date): DateRange {
+  // Ages count backwards from now, so "younger than" is a lower bound on the timestamp
+  const age = AGE_COMPARISON.exec(value);
+  if (age) {
+    const cutoff = new Date(now.getTime() - parseInt(age[2], 10) * DURATION_UNITS_MS[age[3]]);
+    return age[1] === ">" || age[1] === ">=" ? { before: cutoff } : { after: cutoff };
+  }
+
+  const date = DATE_COMPARISON.exec(value);
+  const day = date && isCalendarDay(date[2]) ? new Date(`${date[2]}T00:00:00Z`) : undefined;
+  if (!date || !day) {
+    throw new SearchQuerySyntaxError(`${key}: expects an age such as <7d or a date such as >2024-01-01`, position);
+  }
+  const nextDay = new Date(day.getTime() + DURATION_UNITS_MS.d);
+  switch (date[1]) {
+    case ">": return { after: nextDay };
+    case ">=": return { after: day };
+    case "<": return { before: day };
+    case "<=": return { before: nextDay };
+    default: return { after: day, before: nextDay };
+  }
+}
+
+// Throws SearchQuerySyntaxError, with the offset of the offending term, for malformed input
+export function parseSearchQuery(input: string, now = new Date()): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  let index = 0;
+
+  const readPhrase = () => {
+    const close = input.indexOf('"', index + 1);
+    if (close === -1) {
+      throw new SearchQuerySyntaxError("Unterminated quote", index);
+    }
+    const phrase = input.slice(index + 1, close);
+    index = close + 1;
+    return phrase;
+  };
+
+  const readWord = () => {
+    const start = index;
+    while (index < input.length && !/\s/.test(input[index])) index++;
+    return input.slice(start, index);
+  };
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const negated = input[index] === "-" && index + 1 < input.length && !/\s/.test(input[index + 1]);
+    if (negated) index++;
+
+    if (input[index] === '"') {
+      const phrase = readPhrase().trim();
+      if (phrase) terms.push({ kind: "text", value: phrase, phrase: true, negated });
+      continue;
+    }
+
+    const qualifier = /^([a-z]+):/i.exec(input.slice(index));
+    const key = qualifier?.[1].toLowerCase() as SearchQualifier | undefined;
+    if (!qualifier || !key || !SEARCH_QUALIFIERS.includes(key)) {
+      const word = readWord();
+      // A dash on its own is punctuation, not a search term
+      if (word !== "-") terms.push({ kind: "text", value: word, phrase: false, negated });
+      continue;
+    }
+
+    index += qualifier[0].length;
+    const value = (input[index] === '"' ? readPhrase() : readWord()).trim();
+    if (!value) {
+      throw new SearchQuerySyntaxError(`Missing value for ${key}:`, start);
+    }
+
+    switch (key) {
+      case "stars":
+      case "comments":
+        terms.push({ kind: key, range: parseNumberRange(key, value, start), negated });
+        break;
+      case "created":
+      case "updated":
+        terms.push({ kind: key, range: parseDateRange(key, value, start, now), negated });
+        break;
+      default:
+        terms.push({ kind: key, value, negated });
+    }
+  }
+
+  return terms;
+}